@@ -1,8 +1,38 @@
 import { PropertyValueMap, PropertyValues } from 'lit'
 
+import { EnlightenmentEventName } from './_types/main'
+
+import {
+  EnlightenmentContextProviderEvent as _EnlightenmentContextProviderEvent,
+  EnlightenmentContextRequestEvent as _EnlightenmentContextRequestEvent,
+  EnlightenmentContextRoot as _EnlightenmentContextRoot
+} from './providers/Context'
+import {
+  EnlightenmentLogBuffer as _EnlightenmentLogBuffer,
+  EnlightenmentLogger as _EnlightenmentLogger
+} from './providers/Logger'
+import {
+  EnlightenmentMemoryStorage as _EnlightenmentMemoryStorage,
+  EnlightenmentStorage as _EnlightenmentStorage
+} from './providers/Storage'
+import { EnlightenmentScheduler as _EnlightenmentScheduler } from './providers/Scheduler'
+import { EnlightenmentScopes as _EnlightenmentScopes } from './providers/Scopes'
+import { EnlightenmentStore as _EnlightenmentStore } from './providers/Store'
 import { EnlightenmentTheme as _EnlightenmentTheme } from './providers/Theme'
-
+import { EnlightenmentWindowManager as _EnlightenmentWindowManager } from './providers/WindowManager'
+
+export const EnlightenmentContextProviderEvent = _EnlightenmentContextProviderEvent
+export const EnlightenmentContextRequestEvent = _EnlightenmentContextRequestEvent
+export const EnlightenmentContextRoot = _EnlightenmentContextRoot
+export const EnlightenmentLogBuffer = _EnlightenmentLogBuffer
+export const EnlightenmentLogger = _EnlightenmentLogger
+export const EnlightenmentMemoryStorage = _EnlightenmentMemoryStorage
+export const EnlightenmentScheduler = _EnlightenmentScheduler
+export const EnlightenmentScopes = _EnlightenmentScopes
+export const EnlightenmentStorage = _EnlightenmentStorage
+export const EnlightenmentStore = _EnlightenmentStore
 export const EnlightenmentTheme = _EnlightenmentTheme
+export const EnlightenmentWindowManager = _EnlightenmentWindowManager
 
 export {
   createRef,
@@ -63,9 +93,9 @@ export class Enlightenment extends EnlightenmentExtensionLoader {
    *
    * @param name Dispatch the optional hook
    */
-  protected handleUpdate(name?: string) {
-    // Defines the current Color mode from the Component context or it's host.
-    this.useMode(undefined, Enlightenment)
+  protected handleUpdate(name?: EnlightenmentEventName) {
+    // Defines the fallback Color mode when it is not inherited from any host.
+    this.useMode()
 
     // Reflect the updated properties or attributes vice versa only once.
     this.updateAttribute('viewport', this.viewport)
@@ -78,6 +108,9 @@ export class Enlightenment extends EnlightenmentExtensionLoader {
     this.updateAttributeAlias('isExpanded', 'aria-expanded')
     this.updateAttributeAlias('pending', 'aria-busy')
 
+    // Provide the updated color properties for the nested Components.
+    this.updateColorContext()
+
     if (!this.currentElement) {
       this.currentElement && this.throttle(this.handleDragEnd)
       !this.viewport && this.handleCurrentViewport()
@@ -100,6 +133,11 @@ export class Enlightenment extends EnlightenmentExtensionLoader {
   protected updated(properties: PropertyValues): void {
     super.updated(properties)
 
+    // Resolve the updated [observe] selectors for the connected Component.
+    if (properties.has('observe') && this.isConnected) {
+      this.throttle(this.assignListeners)
+    }
+
     this.throttle(this.handleUpdate, this.delay, 'updated')
   }
 
@@ -109,13 +147,17 @@ export class Enlightenment extends EnlightenmentExtensionLoader {
   public connectedCallback(): void {
     super.connectedCallback()
 
+    // Resolve the Globals from the nearest scope root before using them.
+    this.globals = this.useGlobals()
+
     // Includes the required viewport meta tags to ensure the responsive
     // layout behaves correctly.
     Enlightenment.theme.assignViewport()
     this.handleCurrentViewport()
 
     // Invoke the defined Enlightenment providers once and include them
-    // to the constructed Enlightenment Globals.
+    // to the default Enlightenment Globals since the document StyleSheets are
+    // shared between the scoped Globals.
     if (!Enlightenment.globals.hasProvider(Enlightenment.theme)) {
       // Define the required styles in order to use the additional Enlightenment
       // features.
@@ -154,6 +196,14 @@ export class Enlightenment extends EnlightenmentExtensionLoader {
       Enlightenment.globals.assignProvider(Enlightenment.theme)
     }
 
+    this.globals.assignProvider(Enlightenment.theme)
+    this.globals.assignProvider(Enlightenment.logger)
+    this.globals.assignProvider(this.useStore())
+
+    // Replay the context requests of Components that are connected before
+    // their providing host.
+    Enlightenment.contextRoot.attach(document)
+
     // Create reference of the custom StyleSheets that will update from their
     // component property values.
     const customStylesheet = Enlightenment.theme.assignComponentStyleSheet(this)
@@ -172,12 +222,14 @@ export class Enlightenment extends EnlightenmentExtensionLoader {
     const host = this.useHost(this) as HTMLElement
     host && this.hook('updated', { context: host })
 
-    Enlightenment.globals.assignInstance(this)
+    this.globals.assignInstance(this)
 
     this.dispatchUpdate('connected')
 
     this.assignGlobalEvent('ready', this.handleReady, { context: this })
     this.throttle(this.assignListeners)
+    this.assignSelectors()
+    this.assignColorContext()
 
     // Flag slotless components as ready directly.
     if (!this.useSlot()) {
@@ -192,7 +244,7 @@ export class Enlightenment extends EnlightenmentExtensionLoader {
     try {
       this.clearThrottler()
 
-      Enlightenment.globals.omitInstance(this)
+      this.globals.omitInstance(this)
 
       this.omitGlobalEvent('click', this.handleGlobalClick)
       this.omitGlobalEvent('focus', this.handleGlobalFocus)
@@ -203,6 +255,8 @@ export class Enlightenment extends EnlightenmentExtensionLoader {
       this.clearGlobalEvent('ready', this)
 
       this.clearListeners()
+      this.omitSelectors()
+      this.clearContexts()
 
       const slots = this.shadowRoot && this.shadowRoot.querySelectorAll('slot')
 
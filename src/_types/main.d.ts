@@ -1,5 +1,8 @@
 import { EnlightenmentGlobals } from '../providers/Globals'
+import { EnlightenmentLogger } from '../providers/Logger'
+import { EnlightenmentStore } from '../providers/Store'
 import { EnlightenmentTheme } from '../providers/Theme'
+import { EnlightenmentWindowManager } from '../providers/WindowManager'
 
 /**
  * Defines a single entry of the parsed json data form the
@@ -53,12 +56,149 @@ export type EnlightenmentJSONResponse =
   | EnlightenmentJSONResponseArray
   | EnlightenmentJSONResponseObject[]
 
+/**
+ * Defines a single parsed expression of the [handle] attribute:
+ * handle="keydown.enter.prevent:select('a', 2, $event)"
+ */
+export type EnlightenmentHandleExpression = {
+  args: any[]
+  keys: string[]
+  method: string
+  modifiers: string[]
+  type: string
+}
+
+/**
+ * Contains the assigned Event listener of a [handle] expression.
+ */
+export type EnlightenmentHandleBinding = EnlightenmentHandleExpression & {
+  element: HTMLElement
+  listener: EventListener
+}
+
 /**
  * Type reference for all the existing Enlightenment Providers.
  */
-export type EnlightenmentProvider = EnlightenmentGlobals | EnlightenmentTheme
+export type EnlightenmentProvider =
+  | EnlightenmentGlobals
+  | EnlightenmentLogger
+  | EnlightenmentStore
+  | EnlightenmentTheme
+  | EnlightenmentWindowManager
 export type EnlightenmentProviders = EnlightenmentProvider[]
 
+/**
+ * Defines the accepted log levels of the EnlightenmentLogger.
+ */
+export type EnlightenmentLogLevel = 'debug' | 'log' | 'info' | 'warning' | 'error' | 'silent'
+
+/**
+ * Structured log record that is written to the EnlightenmentLogger
+ * transports.
+ */
+export type EnlightenmentLogRecord = {
+  level: EnlightenmentLogLevel
+  message: any[]
+  namespace: string
+  timestamp: number
+  uuid: string
+}
+
+export type EnlightenmentLogTransport = (record: EnlightenmentLogRecord) => void
+
+/**
+ * Defines the minimal Storage interface that is used by the
+ * EnlightenmentStorage provider. The native localStorage and sessionStorage
+ * Objects are compatible with this interface.
+ */
+export interface EnlightenmentStorageAdapter {
+  getItem(key: string): string | null
+  removeItem(key: string): void
+  setItem(key: string, value: string): void
+}
+
+/**
+ * Alias names for the default Storage adapters.
+ */
+export type EnlightenmentStorageType = 'local' | 'session' | 'memory'
+
+/**
+ * Callback of a context request that receives the provided value and the
+ * optional unsubscribe handler of a subscribed request.
+ */
+export type EnlightenmentContextCallback<T = any> = (value: T, unsubscribe?: () => void) => void
+
+/**
+ * Contains the requesting Element and the unsubscribe handler of a single
+ * subscribed consumer. The same handler is used for each provided value.
+ */
+export type EnlightenmentContextConsumer = {
+  element: Element
+  unsubscribe: () => void
+}
+
+/**
+ * Contains the provided value and the subscribed consumers of a single
+ * context key within the providing Component.
+ */
+export type EnlightenmentContextProvider = {
+  consumers: Map<EnlightenmentContextCallback, EnlightenmentContextConsumer>
+  value: any
+}
+
+/**
+ * Contains the request callback and the optional unsubscribe handler of a
+ * consumed context.
+ */
+export type EnlightenmentContextSubscription = {
+  callback: EnlightenmentContextCallback
+  unsubscribe?: () => void
+}
+
+/**
+ * Contains the shared state of the EnlightenmentStore.
+ */
+export type EnlightenmentStoreState = { [key: string]: any }
+
+/**
+ * Defines the dispatched action of the EnlightenmentStore.
+ */
+export type EnlightenmentStoreAction = {
+  payload?: any
+  source?: string
+  type: string
+}
+
+/**
+ * Returns the partial state that is merged with the current state from the
+ * dispatched action payload, or undefined when nothing should change.
+ */
+export type EnlightenmentStoreReducer = (
+  state: EnlightenmentStoreState,
+  payload?: any
+) => EnlightenmentStoreState | undefined | void
+
+/**
+ * Returns the selected slice of the current state.
+ */
+export type EnlightenmentStoreSelector = (state: EnlightenmentStoreState) => any
+
+/**
+ * Callback handler that is called when the selected slice has changed.
+ */
+export type EnlightenmentStoreHandler = (value: any, previous: any) => void
+
+/**
+ * Contains the selectors that are assigned for each Component.
+ */
+export type EnlightenmentStoreSelectors = { [name: string]: EnlightenmentStoreSelector }
+
+export type EnlightenmentStoreSubscription = {
+  handler: EnlightenmentStoreHandler
+  selector: EnlightenmentStoreSelector
+  value: any
+}
+
 export type EnlightenmentInputControllerPointerData = {
   clientX: number
   clientY: number
@@ -68,23 +208,44 @@ export type EnlightenmentInputControllerPointerData = {
 }
 
 export type EnlightenmentInteractionData = {
+  axisLock?: DraggableAxisType
   context?: HTMLElement
+  deltaX?: number
+  deltaY?: number
   edgeX?: number
   edgeY?: number
-  event?: MouseEvent | TouchEvent
+  event?: MouseEvent | TouchEvent | KeyboardEvent
+  gestureAngle?: number
+  gestureCenterX?: number
+  gestureCenterY?: number
+  gestureDistance?: number
+  gestureInitialAngle?: number
+  gestureInitialDistance?: number
+  gestureRotation?: number
+  gestureScale?: number
   height?: number
   host?: HTMLElement
   left?: number
   origin?: HTMLElement
   pivot?: number
+  pointerId?: number
+  pointerType?: string
   pointerX?: number
   pointerY?: number
+  pressure?: number
   previousPointerX?: number
   previousPointerY?: number
   initialPointerX?: number
   initialPointerY?: number
   request?: number
   response?: number
+  samples?: EnlightenmentInteractionSample[]
+  speedX?: number
+  speedY?: number
+  thresholdX?: number
+  thresholdY?: number
+  tiltX?: number
+  tiltY?: number
   top?: number
   updates?: number
   velocityX?: number
@@ -94,6 +255,16 @@ export type EnlightenmentInteractionData = {
   y?: number
 }
 
+/**
+ * Defines a single Pointer position that is used to calculate the velocity of
+ * the current interaction.
+ */
+export type EnlightenmentInteractionSample = {
+  timestamp: number
+  x: number
+  y: number
+}
+
 export type EnlightenmentInteractionEndCallback = (value: boolean | PromiseLike<boolean>) => void
 
 export type EnlightenmentInputControllerCallbackOptions = {
@@ -155,10 +326,41 @@ export type EnlightenmentDOMResizeOptions = {
 export type EnlightenmentTarget = Element | HTMLElement | Node | SVGElement | undefined
 
 /**
- * Definition of a single throttled handler that will not stack if called
- * multiple times within the defined throttle delay.
+ * Defines the accepted modes of the EnlightenmentScheduler.
  */
-export type EnlightenmentThrottle = [Function, ReturnType<typeof setTimeout>, any[] | undefined]
+export type EnlightenmentSchedulerMode = 'debounce' | 'throttle' | 'frame' | 'microtask' | 'idle'
+
+export type EnlightenmentSchedulerOptions = {
+  args?: any[]
+  delay?: number
+  leading?: boolean
+  mode?: EnlightenmentSchedulerMode
+  trailing?: boolean
+}
+
+/**
+ * Contains a single pending handler of the EnlightenmentScheduler.
+ */
+export type EnlightenmentSchedulerJob = {
+  active: boolean
+  args: any[]
+  handler: Function
+  mode: EnlightenmentSchedulerMode
+  pending: boolean
+  promise: Promise<any>
+  reject: (reason?: any) => void
+  request?: number | ReturnType<typeof setTimeout>
+  resolve: (value: any) => void
+}
+
+/**
+ * Returned handle of a scheduled handler that can cancel the pending call or
+ * await the result of the handler.
+ */
+export type EnlightenmentSchedulerTask = {
+  cancel: () => boolean
+  promise: Promise<any>
+}
 
 /**
  * Type reference for the possible Context2D viewport Element.
@@ -186,14 +388,90 @@ export type GlobalEvent = [
   GlobalEventHandler
 ]
 
+/**
+ * Defines the validation rule of a single Component property. Undefined values
+ * are accepted unless the rule is required.
+ */
+export type EnlightenmentSchemaRule = {
+  enum?: any[]
+  max?: number
+  min?: number
+  required?: boolean
+  type?: 'array' | 'boolean' | 'number' | 'object' | 'string'
+  validate?: (value: any) => boolean | string
+}
+
+/**
+ * Contains the validation rules for each Component property.
+ */
+export type EnlightenmentSchema = { [property: string]: EnlightenmentSchemaRule }
+
+/**
+ * Contains the initial values and rejected commits of the current
+ * transaction.
+ * @see EnlightenmentKernel.transaction()
+ */
+export type EnlightenmentTransaction = {
+  errors: any[]
+  initial: Map<string, any>
+}
+
 /**
  * Optional options to use for Enlightenment.hook method.
  */
-export type HookOptions = {
+export type HookOptions<T = any> = {
+  cancelable?: boolean
   context?: Element
-  data?: any
+  data?: T
 }
 
+/**
+ * Defines the hook names with the expected detail payload that are dispatched
+ * by the Enlightenment Core. Extensions should augment the interface with
+ * their own hooks:
+ *
+ * declare module '../_types/main' {
+ *   interface EnlightenmentEventMap {
+ *     custom: { value: number }
+ *   }
+ * }
+ */
+export interface EnlightenmentEventMap {
+  commit: { [property: string]: any }
+  connected: {}
+  disconnected: {}
+  error: { message: any }
+  global: GlobalEventOptions | undefined
+  invalid: { message: string; property: string; value: any }
+  omit: {}
+  pinch: { distance: number; scale: number }
+  preload: { extension: string; failed?: boolean }
+  preloaded: {}
+  ready: {}
+  rotate: { angle: number; rotation: number }
+  updated: {}
+}
+
+export type EnlightenmentEventName = keyof EnlightenmentEventMap
+
+/**
+ * The dispatched CustomEvent of the defined hook name.
+ */
+export type EnlightenmentEvent<K extends EnlightenmentEventName> = CustomEvent<
+  EnlightenmentEventMap[K]
+>
+
+export type EnlightenmentEventHandler<K extends EnlightenmentEventName> = (
+  event: EnlightenmentEvent<K>
+) => any
+
+/**
+ * The native Events of the HTMLElement without the declared hook names. The
+ * hooks that share the name of a native Event, like the Draggable dragstart
+ * hook, are typed from the EnlightenmentEventMap instead.
+ */
+export type EnlightenmentNativeEventMap = Omit<HTMLElementEventMap, EnlightenmentEventName>
+
 export type ColorMode = 'light' | 'dark'
 
 export interface EnlightenmentDefaults {
@@ -210,13 +488,146 @@ export interface EnlightenmentDefaults {
     escape?: string
   }
   customEvents: {
-    dragEnd: string
-    dragStart: string
+    dragEnd: 'dragend'
+    dragEnter: 'dragenter'
+    dragLeave: 'dragleave'
+    dragStart: 'dragstart'
+    drop: 'drop'
+    guides: 'guides'
+    history: 'history'
+    pinch: 'pinch'
+    rotate: 'rotate'
+    snap: 'snap'
+    thresholdX: 'threshold-x'
+    thresholdY: 'threshold-y'
   }
   passiveEventTypes: string[]
 }
 
 export type DraggablePositionType = 'inline' | 'static' | 'absolute' | 'fixed'
+export type DraggableAxisType = 'x' | 'y'
+
+/**
+ * Defines the viewport edges and corners that can resize the Draggable context
+ * at the end of the Drag interaction.
+ */
+export type EnlightenmentDraggableEdge =
+  | 'top'
+  | 'right'
+  | 'bottom'
+  | 'left'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+
+/**
+ * Defines the absolute rectangle that is applied to the Draggable context for
+ * a single edge or corner.
+ */
+export type EnlightenmentDraggableEdgeRect = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Defines the rectangle for each edge or corner as static value or as callback
+ * that receives the current viewport, an edge is ignored when the value is
+ * null or when the callback returns undefined.
+ */
+export type EnlightenmentDraggableEdgeLayout = {
+  [key in EnlightenmentDraggableEdge]?:
+    | EnlightenmentDraggableEdgeRect
+    | ((viewport: EnlightenmentContext2DRect) => EnlightenmentDraggableEdgeRect | undefined)
+    | null
+}
+
+/**
+ * Contains the recorded geometry entries of a single Draggable target and the
+ * index of the current entry.
+ */
+export type EnlightenmentDraggableHistory = {
+  entries: EnlightenmentDraggablePersistEntry[]
+  index: number
+}
+
+/**
+ * Contains the state of the active sortable interaction within a Draggable
+ * element.
+ */
+export type EnlightenmentDraggableSortData = {
+  item: HTMLElement
+  keyboard?: boolean
+  origin: HTMLElement
+  placeholder?: HTMLElement
+  pointerX: number
+  pointerY: number
+  sibling: Element | null
+  style: string
+  zone?: HTMLElement
+}
+
+/**
+ * Defines a single alignment guide that is exposed during a Draggable
+ * interaction while the context snaps to the edge of another Draggable target.
+ */
+export type EnlightenmentDraggableGuide = {
+  axis: 'x' | 'y'
+  position: number
+  target: HTMLElement
+}
+
+/**
+ * Defines the serialized geometry of a Draggable target that is written to the
+ * assigned Storage adapter when the [persist] attribute is defined.
+ */
+export type EnlightenmentDraggablePersistEntry = {
+  height?: number
+  position?: DraggablePositionType
+  stretchX?: boolean
+  stretchY?: boolean
+  width?: number
+  x?: number
+  y?: number
+}
+
+/**
+ * Defines the position and size of a single window within the
+ * EnlightenmentWindowManager.
+ */
+export type EnlightenmentWindowRect = {
+  height: number
+  width: number
+  x: number
+  y: number
+}
+
+export type EnlightenmentWindowState = 'normal' | 'minimized' | 'maximized'
+
+/**
+ * Component that tracks a window within the EnlightenmentWindowManager, the
+ * optional applyWindowRect method applies the geometry from the window
+ * manager within the Component instead.
+ */
+export type EnlightenmentWindowOwner = Element & {
+  applyWindowRect?: (context: HTMLElement, rect: EnlightenmentWindowRect) => void
+}
+
+/**
+ * Defines a single tracked window of the EnlightenmentWindowManager.
+ */
+export type EnlightenmentWindow = {
+  context: HTMLElement
+  depth: number
+  owners: EnlightenmentWindowOwner[]
+  position: 'absolute' | 'fixed'
+  rect?: EnlightenmentWindowRect
+  state: EnlightenmentWindowState
+}
+
+export type EnlightenmentWindowHandler = (windows: EnlightenmentWindow[]) => void
 
 export interface EnlightenmentDraggableDefaults extends EnlightenmentDefaults {
   Draggable: {
@@ -226,6 +637,14 @@ export interface EnlightenmentDraggableDefaults extends EnlightenmentDefaults {
       DraggablePositionType,
       DraggablePositionType
     ]
+    axisLock: number
+    friction: number
+    historyLimit: number
+    keyboardDelay: number
+    minVelocity: number
+    placeholder: string
+    step: number
+    stepMultiplier: number
   }
 }
 
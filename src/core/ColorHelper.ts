@@ -19,6 +19,16 @@ export class EnlightenmentColorHelper extends EnlightenmentImageHelper {
    */
   static theme = new EnlightenmentTheme()
 
+  /**
+   * Defines the context keys of the color properties that are inherited by
+   * the nested Components.
+   */
+  static colorContexts: { [property in 'accent' | 'mode' | 'neutral']: string } = {
+    accent: 'enlightenment-accent',
+    mode: 'enlightenment-mode',
+    neutral: 'enlightenment-neutral'
+  }
+
   /**
    * Generates the optional [accent] color for the defined Component.
    */
@@ -58,6 +68,22 @@ export class EnlightenmentColorHelper extends EnlightenmentImageHelper {
    */
   customStyleSheetCache?: string
 
+  /**
+   * Contains the latest inherited value of each color property to ensure the
+   * inherited value can be updated while keeping the value that was defined
+   * on the Component itself.
+   */
+  inheritedColors: { [property: string]: any } = {}
+
+  /**
+   * Consumes the color properties from the nearest host that provides them.
+   */
+  protected assignColorContext() {
+    Object.entries(EnlightenmentColorHelper.colorContexts).forEach(([property, key]) =>
+      this.consumeContext(key, (value) => this.inheritColorProperty(property, value))
+    )
+  }
+
   /**
    * Expose the constructed Component stylesheet in order to update it within
    * a lifecycle Event.
@@ -83,6 +109,30 @@ export class EnlightenmentColorHelper extends EnlightenmentImageHelper {
     this.log(['Custom stylesheet assigned:', this.uuid], 'log')
   }
 
+  /**
+   * Assigns the inherited value for the defined color property when the
+   * property is undefined or equals the previous inherited value.
+   *
+   * @param property Inherit the defined color property.
+   * @param value The inherited value to assign.
+   */
+  protected inheritColorProperty(property: string, value: any) {
+    const current = (this as any)[property]
+    const previous = this.inheritedColors[property]
+
+    this.inheritedColors[property] = value
+
+    if ((current !== undefined && current !== previous) || current === value) {
+      return false
+    }
+
+    ;(this as any)[property] = value
+
+    this.log([`Inherit ${property}:`, value], 'log')
+
+    return true
+  }
+
   /**
    * Ensures the Component Theme can be updated from Host components.
    *
@@ -138,55 +188,31 @@ export class EnlightenmentColorHelper extends EnlightenmentImageHelper {
   }
 
   /**
-   * Defines the mode attribute for the defined element that inherits the
-   * specified mode value from the global state as default value otherwise.
-   *
-   * @param context Traverse from the optional context Element.
-   *
+   * Provides the current color properties to the nested Components, the
+   * undefined properties are only provided when they were provided before.
    */
-  protected useMode(context?: Element, instance?: any) {
-    const { mode } = EnlightenmentColorHelper.globals
-    const target = (context || this) as any
-    const host = this.useHost(target) as EnlightenmentColorHelper
+  protected updateColorContext() {
+    Object.entries(EnlightenmentColorHelper.colorContexts).forEach(([property, key]) => {
+      const value = (this as any)[property]
 
-    if (!this.mode) {
-      this.mode = EnlightenmentColorHelper.globals.mode
+      if (value !== undefined || this.contextProviders.has(key)) {
+        this.provideContext(key, value)
+      }
+    })
+  }
 
-      this.log(`Use fallback mode: ${this.mode}`, 'log')
+  /**
+   * Defines the mode for the defined element that is not inherited from any
+   * host and uses the specified mode value from the global state instead. The
+   * fallback mode is replaced when a host provides the mode afterwards.
+   */
+  protected useMode() {
+    if (this.mode) {
+      return
     }
 
-    if (!this.hasAttribute('mode') && host) {
-      const inheritMode = EnlightenmentColorHelper.isMode(host.getAttribute('mode'))
+    this.inheritColorProperty('mode', this.globals.mode)
 
-      if (!inheritMode) {
-        // Ensure the unconstructed parent element is ready before we traverse
-        // upwards.
-        this.throttle(() => {
-          host.useMode && host.useMode(this, instance)
-        })
-
-        return
-      }
-
-      if (inheritMode && this.mode !== inheritMode) {
-        target.mode = inheritMode
-
-        // Update the inherited mode value as actual HTML attribute in order to
-        // apply the actual CSS styles.
-        target.mode && target.setAttribute('mode', target.mode)
-      } else if (this.mode === undefined) {
-        this.mode = mode || EnlightenmentColorHelper.globals.mode
-      }
-    } else if (!this.mode && mode && this.mode !== mode) {
-      this.mode = mode
-    } else if (
-      context &&
-      context !== this &&
-      this.hasAttribute('mode') &&
-      !context.hasAttribute('mode')
-    ) {
-      target.mode = this.mode
-      this.mode && target.setAttribute('mode', this.mode)
-    }
+    this.log(`Use fallback mode: ${this.mode}`, 'log')
   }
 }
@@ -3,7 +3,8 @@ import {
   EnlightenmentContext2DCacheEntry,
   EnlightenmentDOMResizeOptions,
   EnlightenmentViewport,
-  EnlightenmentContext2DBounds
+  EnlightenmentContext2DBounds,
+  DraggableAxisType
 } from '../_types/main'
 
 import { EnlightenmentAnimation } from './Animation'
@@ -174,7 +175,12 @@ export class EnlightenmentContext2D extends EnlightenmentAnimation {
   protected isWithinViewport(x: number, y: number, viewport?: EnlightenmentViewport) {
     const bounds = this.useBoundingRect(viewport)
 
-    return x >= bounds.left && x <= bounds.width && y >= bounds.top && y <= bounds.width
+    return (
+      x >= bounds.left &&
+      x <= bounds.left + bounds.width &&
+      y >= bounds.top &&
+      y <= bounds.top + bounds.height
+    )
   }
 
   /**
@@ -259,8 +265,9 @@ export class EnlightenmentContext2D extends EnlightenmentAnimation {
    * within the current visible Viewport.
    *
    * @param pivot Apply the stretch transformation from the defined pivot value.
+   * @param axis Only stretch the context within the defined axis.
    */
-  protected stretch(context: HTMLElement, pivot?: number) {
+  protected stretch(context: HTMLElement, pivot?: number, axis?: DraggableAxisType) {
     if (!context) {
       return
     }
@@ -292,55 +299,55 @@ export class EnlightenmentContext2D extends EnlightenmentAnimation {
 
     switch (pivot) {
       case 1:
-        commit.width = context.offsetLeft + context.offsetWidth
-        commit.height = context.offsetTop + context.offsetHeight
-        commit.x = 0
-        commit.y = 0
+        commit.width = context.offsetLeft + context.offsetWidth - viewport.left
+        commit.height = context.offsetTop + context.offsetHeight - viewport.top
+        commit.x = viewport.left
+        commit.y = viewport.top
         break
 
       case 2:
         commit.width = context.offsetWidth
-        commit.height = context.offsetTop + context.offsetHeight
+        commit.height = context.offsetTop + context.offsetHeight - viewport.top
         commit.x = context.offsetLeft
-        commit.y = 0
+        commit.y = viewport.top
         break
 
       case 3:
-        commit.width = viewport.width - context.offsetLeft
-        commit.height = context.offsetTop + context.offsetHeight
+        commit.width = viewport.left + viewport.width - context.offsetLeft
+        commit.height = context.offsetTop + context.offsetHeight - viewport.top
         commit.x = context.offsetLeft
-        commit.y = 0
+        commit.y = viewport.top
         break
 
       case 4:
-        commit.width = context.offsetLeft + context.offsetWidth
+        commit.width = context.offsetLeft + context.offsetWidth - viewport.left
         commit.height = context.offsetHeight
-        commit.x = 0
+        commit.x = viewport.left
         break
 
       case 6:
-        commit.width = viewport.width - context.offsetLeft
+        commit.width = viewport.left + viewport.width - context.offsetLeft
         commit.height = context.offsetHeight
         commit.x = context.offsetLeft
         break
 
       case 7:
-        commit.width = context.offsetLeft + context.offsetWidth
-        commit.height = viewport.height - context.offsetTop
-        commit.x = 0
+        commit.width = context.offsetLeft + context.offsetWidth - viewport.left
+        commit.height = viewport.top + viewport.height - context.offsetTop
+        commit.x = viewport.left
 
         break
 
       case 8:
         commit.width = context.offsetWidth
-        commit.height = viewport.height - context.offsetTop
+        commit.height = viewport.top + viewport.height - context.offsetTop
         commit.x = context.offsetLeft
         commit.y = context.offsetTop
         break
 
       case 9:
-        commit.width = viewport.width - context.offsetLeft
-        commit.height = viewport.height - context.offsetTop
+        commit.width = viewport.left + viewport.width - context.offsetLeft
+        commit.height = viewport.top + viewport.height - context.offsetTop
         commit.x = context.offsetLeft
         commit.y = context.offsetTop
         break
@@ -348,12 +355,21 @@ export class EnlightenmentContext2D extends EnlightenmentAnimation {
       default:
         commit.width = viewport.width
         commit.height = viewport.height
-        commit.x = 0
-        commit.y = 0
+        commit.x = viewport.left
+        commit.y = viewport.top
 
         break
     }
 
+    // Maintain the initial size and position outside the optional axis.
+    if (axis === 'x') {
+      commit.height = initial.height
+      commit.y = initial.y
+    } else if (axis === 'y') {
+      commit.width = initial.width
+      commit.x = initial.x
+    }
+
     // Toggle between the previous state while the current pivot value matches
     // with the previous pivot value.
     if (EnlightenmentContext2D.compareValue(initial, commit)) {
@@ -417,8 +433,10 @@ export class EnlightenmentContext2D extends EnlightenmentAnimation {
 
     const top = (translateY || 0) + context.offsetTop < viewport.top
     const left = (translateX || 0) + context.offsetLeft < viewport.left
-    const bottom = (translateY || 0) + context.offsetTop + context.offsetHeight > viewport.height
-    const right = (translateX || 0) + context.offsetLeft + context.offsetWidth > viewport.width
+    const bottom =
+      (translateY || 0) + context.offsetTop + context.offsetHeight > viewport.top + viewport.height
+    const right =
+      (translateX || 0) + context.offsetLeft + context.offsetWidth > viewport.left + viewport.width
 
     return { top, left, right, bottom }
   }
@@ -485,16 +503,16 @@ export class EnlightenmentContext2D extends EnlightenmentAnimation {
 
     // Limit the final horizontal position within the visible viewport.
     if (x < bounds.left) {
-      x = 0
-    } else if (x + offsetWidth > bounds.width) {
-      x = bounds.width - offsetWidth
+      x = bounds.left
+    } else if (x + offsetWidth > bounds.left + bounds.width) {
+      x = bounds.left + bounds.width - offsetWidth
     }
 
     // Limit the final vertical position within the visible bounds.
     if (y < bounds.top) {
-      y = 0
-    } else if (y + offsetHeight > bounds.height) {
-      y = bounds.height - offsetHeight
+      y = bounds.top
+    } else if (y + offsetHeight > bounds.top + bounds.height) {
+      y = bounds.top + bounds.height - offsetHeight
     }
 
     return { x, y }
@@ -1,12 +1,22 @@
 import {
   BreakpointHandler,
+  EnlightenmentContextCallback,
+  EnlightenmentContextProvider,
+  EnlightenmentContextSubscription,
   EnlightenmentDOMResizeOptions,
+  EnlightenmentHandleBinding,
+  EnlightenmentHandleExpression,
   EnlightenmentTarget
 } from '../_types/main'
 
 import { createRef, property } from './Mixins'
 import { EnlightenmentParser } from './Parser'
 
+import {
+  EnlightenmentContextProviderEvent,
+  EnlightenmentContextRequestEvent,
+  EnlightenmentContextRoot
+} from '../providers/Context'
 import { EnlightenmentTheme } from '../providers/Theme'
 import { Enlightenment } from '../Enlightenment'
 
@@ -133,6 +143,12 @@ export class EnlightenmentDOM extends EnlightenmentParser {
     return target as Enlightenment
   }
 
+  /**
+   * Replays the context requests that are defined before the actual provider
+   * has been assigned.
+   */
+  static contextRoot = new EnlightenmentContextRoot()
+
   /**
    * Property reference for the actual ARIA disabled Attribute.
    */
@@ -174,6 +190,18 @@ export class EnlightenmentDOM extends EnlightenmentParser {
    */
   context = createRef()
 
+  /**
+   * Contains the provided values for each context key of the Component.
+   * @see provideContext()
+   */
+  contextProviders: Map<unknown, EnlightenmentContextProvider> = new Map()
+
+  /**
+   * Contains the consumed contexts of the Component.
+   * @see consumeContext()
+   */
+  contextSubscriptions: Map<unknown, EnlightenmentContextSubscription> = new Map()
+
   /**
    * Boolean flag that equals True when the current Event target is within
    * the constructed Component context.
@@ -205,6 +233,12 @@ export class EnlightenmentDOM extends EnlightenmentParser {
    */
   slots: { [key: string]: HTMLSlotElement | undefined } = {}
 
+  /**
+   * Contains the assigned Event listeners from the [handle] attributes.
+   * @see assignSlottedEvent()
+   */
+  slottedEvents: EnlightenmentHandleBinding[] = []
+
   /**
    * Optional alias that should match with one of the viewport widths to assign
    * as private Property
@@ -217,12 +251,12 @@ export class EnlightenmentDOM extends EnlightenmentParser {
   private attachCurrentElement() {
     this.commit('currentElement', true)
 
-    EnlightenmentDOM.globals.assignCurrentElement(this)
+    this.globals.assignCurrentElement(this)
   }
 
   /**
-   * Assign additional global Event listeners for the direct child elements with
-   * the [handle] attribute from the defined Component. The [handle] attribute
+   * Assign additional Event listeners for the direct child elements with the
+   * [handle] attribute from the defined Component. The [handle] attribute
    * requires an existing method name of the component:
    *
    * Component.start(...) => handle="start()"
@@ -233,6 +267,17 @@ export class EnlightenmentDOM extends EnlightenmentParser {
    *
    *  Component.start(...) => handle="focus:start()"
    *
+   * The method is called with the Event by default or with the defined literal
+   * arguments, the $event argument is replaced with the actual Event:
+   *
+   *  Component.select(...) => handle="click:select('a', 2, $event)"
+   *
+   * The Event modifiers .prevent, .stop, .once, .self, .capture & .passive can
+   * be chained after the Event type, while any other modifier is used as key
+   * filter for keyboard Events. Multiple bindings are separated by a comma:
+   *
+   *  handle="keydown.enter.prevent:submit(), keydown.esc:close()"
+   *
    * @param Event Use the Event target as actual context.
    */
   private assignSlottedEvent(event: Event) {
@@ -259,25 +304,70 @@ export class EnlightenmentDOM extends EnlightenmentParser {
         return
       }
 
-      const events = value.split(',').forEach((str) => {
-        let [type, name] = str.split(':')
+      const host = this.useHost(element)
 
-        if (!name) {
-          name = type
-          type = 'click'
-        }
+      if (!host || host !== (this as any)) {
+        return
+      }
 
-        //@ts-ignore
-        const fn: Function = this[name.split('(')[0]]
-        const host = this.useHost(element)
+      const { bindings, errors } = EnlightenmentDOM.parseHandle(value)
 
-        if (typeof fn === 'function' && host && host === (this as any)) {
-          host.assignGlobalEvent(type, fn, {
-            context: element
-          })
-        }
-      })
+      errors.forEach((error) => this.log([`Invalid [handle] binding: ${error}`, element], 'error'))
+
+      bindings.forEach((expression) => this.assignHandleBinding(element, expression))
+    })
+  }
+
+  /**
+   * Assigns the Event listener for the defined [handle] expression that calls
+   * the Component method with the parsed arguments.
+   *
+   * @param element Assign the listener to the defined Element.
+   * @param expression The parsed [handle] expression.
+   */
+  private assignHandleBinding(element: HTMLElement, expression: EnlightenmentHandleExpression) {
+    const { args, keys, method, modifiers, type } = expression
+    const fn = (this as any)[method]
+
+    if (typeof fn !== 'function') {
+      this.log(
+        [`Unable to bind [handle] ${type} Event, unknown method ${method}()`, element],
+        'error'
+      )
+
+      return
+    }
+
+    const binding = { ...expression, element } as EnlightenmentHandleBinding
+
+    binding.listener = (event: Event) => {
+      if (modifiers.includes('self') && event.target !== element) {
+        return
+      }
+
+      if (keys.length && !keys.includes(String((event as KeyboardEvent).key).toLowerCase())) {
+        return
+      }
+
+      modifiers.includes('prevent') && event.preventDefault()
+      modifiers.includes('stop') && event.stopPropagation()
+      modifiers.includes('once') && this.omitHandleBinding(binding)
+
+      const params = args.length
+        ? args.map((arg) => (arg === EnlightenmentDOM.HANDLE_EVENT ? event : arg))
+        : [event]
+
+      fn.call(this, ...params)
+    }
+
+    element.addEventListener(type, binding.listener, {
+      capture: modifiers.includes('capture'),
+      passive: modifiers.includes('passive')
     })
+
+    this.slottedEvents.push(binding)
+
+    this.log([`[handle] ${type} Event assigned for ${method}()`, element], 'info')
   }
 
   /**
@@ -291,7 +381,7 @@ export class EnlightenmentDOM extends EnlightenmentParser {
       return false
     })
 
-    EnlightenmentDOM.globals.omitCurrentElement(this)
+    this.globals.omitCurrentElement(this)
 
     this.dispatchUpdate('omit')
   }
@@ -349,25 +439,232 @@ export class EnlightenmentDOM extends EnlightenmentParser {
   }
 
   /**
-   * Assign a new Global Event for each existing component context that is
-   * defined the listen property.
+   * Assign a new Global Event for each existing Element that matches the
+   * [observe] selectors and keep the Events in sync while the matching
+   * Elements are added or removed within the Document or the shadow root of
+   * the Component.
    */
   protected assignListeners() {
-    if (!this.observe || !this.observe.length) {
+    if (!this.observe) {
+      this.clearListeners()
+
       return
     }
 
+    this.updateListeners()
+
+    if (this.observer || typeof MutationObserver === 'undefined') {
+      return
+    }
+
+    this.observer = new MutationObserver(() =>
+      this.throttle(this.updateListeners, EnlightenmentDOM.FPS)
+    )
+
+    this.useObservedRoots().forEach((root) =>
+      this.observer?.observe(root, {
+        attributes: true,
+        attributeFilter: ['class', 'id'],
+        childList: true,
+        subtree: true
+      })
+    )
+  }
+
+  /**
+   * Returns the root nodes that contain the Elements for the [observe]
+   * selectors: the Document and the optional shadow root of the Component.
+   */
+  protected useObservedRoots() {
+    const roots: (Document | ShadowRoot)[] = [document]
+    const root = this.getRootNode()
+
+    if (root instanceof ShadowRoot) {
+      roots.push(root)
+    }
+
+    return roots
+  }
+
+  /**
+   * Resolves the [observe] selectors and assigns or removes the Global Event
+   * for the Elements that have been added or removed since the previous call.
+   */
+  protected updateListeners() {
+    const elements: HTMLElement[] = []
+
+    this.observe &&
+      this.useObservedRoots().forEach((root) =>
+        EnlightenmentDOM.convertToSelector(this.observe as string, root).forEach(
+          (element) => !elements.includes(element) && elements.push(element)
+        )
+      )
+
     // Don't assign the actual Event Listener to the initial Component to
     // prevent an update loop.
-    const queue = Array.from(this.observe).filter((l) => l !== this && document.contains(l))
+    const queue = elements.filter((l) => l !== this)
+    const previous = this.observedElements
+
+    previous
+      .filter((element) => !queue.includes(element))
+      .forEach((element) => this.clearGlobalEvent('updated', element))
+
+    queue
+      .filter((element) => !previous.includes(element))
+      .forEach((element) => this.assignGlobalEvent('updated', this._process, { context: element }))
+
+    this.observedElements = queue
+  }
+
+  /**
+   * Requests the value of the defined context key from the nearest provider
+   * across the shadow roots. The handler is called again when the provided
+   * value is updated while subscribed.
+   *
+   * @param key Request the value of the defined context key.
+   * @param handler Called with the provided value within the Component context.
+   * @param subscribe Receive the updated values from the provider.
+   */
+  protected consumeContext(key: unknown, handler: (value: any) => void, subscribe = true) {
+    if (typeof handler !== 'function') {
+      this.log(['Unable to consume context without a valid handler:', key], 'warning')
 
-    if (!queue.length) {
       return
     }
 
-    for (let i = queue.length; i--; ) {
-      this.assignGlobalEvent('updated', this._process, { context: queue[i] })
+    this.omitContextSubscription(key)
+
+    const subscription: EnlightenmentContextSubscription = {
+      callback: (value, unsubscribe) => {
+        // Release the previous provider when the request is answered by a
+        // different provider.
+        if (subscription.unsubscribe && subscription.unsubscribe !== unsubscribe) {
+          subscription.unsubscribe()
+        }
+
+        subscription.unsubscribe = unsubscribe
+
+        handler.call(this, value)
+      }
     }
+
+    this.contextSubscriptions.set(key, subscription)
+
+    this.dispatchEvent(
+      new EnlightenmentContextRequestEvent(key, this, subscription.callback, subscribe)
+    )
+  }
+
+  /**
+   * Removes the provided contexts and releases the consumed contexts of the
+   * Component.
+   */
+  protected clearContexts() {
+    Array.from(this.contextSubscriptions.keys()).forEach((key) => this.omitContextSubscription(key))
+    Array.from(this.contextProviders.keys()).forEach((key) => this.omitContext(key))
+
+    EnlightenmentDOM.contextRoot.omit(this)
+  }
+
+  /**
+   * Answers the context request for a context that is provided by the
+   * Component.
+   *
+   * @param event The context request from a nested Element.
+   */
+  protected handleContextRequest(event: Event) {
+    const { callback, context, contextTarget, subscribe } =
+      event as EnlightenmentContextRequestEvent
+    const provider = this.contextProviders.get(context)
+
+    // Ignore the requests of the Component itself.
+    if (!provider || (contextTarget || event.composedPath()[0]) === this) {
+      return
+    }
+
+    event.stopPropagation()
+
+    if (!subscribe) {
+      return callback(provider.value)
+    }
+
+    // Reuse the unsubscribe handler of the existing consumer in order to
+    // identify the same provider within the consumer.
+    const consumer = provider.consumers.get(callback) || {
+      element: contextTarget,
+      unsubscribe: () => provider.consumers.delete(callback)
+    }
+
+    provider.consumers.set(callback, consumer)
+
+    callback(provider.value, consumer.unsubscribe)
+  }
+
+  /**
+   * Stops providing the defined context key.
+   *
+   * @param key Omit the provider of the defined context key.
+   */
+  protected omitContext(key: unknown) {
+    if (!this.contextProviders.delete(key)) {
+      return false
+    }
+
+    !this.contextProviders.size && this.clearGlobalEvent('context-request', this)
+
+    return true
+  }
+
+  /**
+   * Releases the consumed context of the defined context key.
+   *
+   * @param key Omit the subscription of the defined context key.
+   */
+  protected omitContextSubscription(key: unknown) {
+    const subscription = this.contextSubscriptions.get(key)
+
+    if (!subscription) {
+      return false
+    }
+
+    subscription.unsubscribe && subscription.unsubscribe()
+
+    return this.contextSubscriptions.delete(key)
+  }
+
+  /**
+   * Provides the defined value for the defined context key to the nested
+   * Elements, the subscribed consumers are called when the value is updated.
+   *
+   * @param key Provide the value for the defined context key.
+   * @param value The value to provide.
+   */
+  protected provideContext(key: unknown, value: any) {
+    const provider = this.contextProviders.get(key)
+
+    if (provider) {
+      if (provider.value === value) {
+        return false
+      }
+
+      provider.value = value
+
+      provider.consumers.forEach(({ unsubscribe }, callback: EnlightenmentContextCallback) =>
+        callback(value, unsubscribe)
+      )
+
+      return true
+    }
+
+    !this.contextProviders.size &&
+      this.assignGlobalEvent('context-request', this.handleContextRequest, { context: this })
+
+    this.contextProviders.set(key, { consumers: new Map(), value })
+
+    // Replay the pending requests that are defined before this provider.
+    this.dispatchEvent(new EnlightenmentContextProviderEvent(key, this))
+
+    return true
   }
 
   /**
@@ -437,27 +734,23 @@ export class EnlightenmentDOM extends EnlightenmentParser {
       actions.push(...(Object.values(slot.querySelectorAll('[handle]')) as HTMLElement[]))
     }
 
-    actions.forEach((element) => {
-      const value = element.getAttribute('handle')
-
-      if (!value) {
-        return
-      }
-
-      let [type, name] = value.split(':')
+    // Also remove the bindings of the Elements that have been removed.
+    this.slottedEvents
+      .filter(({ element }) => actions.includes(element) || !element.isConnected)
+      .forEach((binding) => this.omitHandleBinding(binding))
+  }
 
-      const host = this.useHost(element)
-      if (!host || host !== (this as any)) {
-        return
-      }
+  /**
+   * Removes the Event listener of the defined [handle] binding.
+   *
+   * @param binding The binding to remove.
+   */
+  protected omitHandleBinding(binding: EnlightenmentHandleBinding) {
+    const { element, listener, modifiers, type } = binding
 
-      if (!name) {
-        name = type
-        type = 'click'
-      }
+    element.removeEventListener(type, listener, { capture: modifiers.includes('capture') })
 
-      host.clearGlobalEvent(type, element)
-    })
+    this.slottedEvents = this.slottedEvents.filter((b) => b !== binding)
   }
 
   /**
@@ -1197,7 +1490,7 @@ export class EnlightenmentDOM extends EnlightenmentParser {
       let current = context
 
       while (current.parentNode && !target) {
-        if (Object.values(this.observe).includes(current) && current !== this) {
+        if (this.observedElements.includes(current) && current !== this) {
           target = current
           break
         } else if (current.tagName === this.tagName) {
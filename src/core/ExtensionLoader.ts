@@ -5,6 +5,16 @@ export class EnlightenmentExtensionLoader extends EnlightenmentInputController {
   extensions: string[] = []
   extensionInstances: EnlightenmentExtensionImports = {}
 
+  /**
+   * Contains the extension names that have been imported for the Component.
+   */
+  preloadedExtensions: string[] = []
+
+  /**
+   * Contains the extension names that could not be imported.
+   */
+  failedExtensions: string[] = []
+
   /**
    * Disables the core Extension import while the Query URL parameter
    * [disableEnlightenmentExtensions] exists within the current URL.
@@ -65,6 +75,10 @@ export class EnlightenmentExtensionLoader extends EnlightenmentInputController {
           const importer: any = (EnlightenmentExtensionLoader as any)[`import${extension}`]
 
           if (typeof importer !== 'function') {
+            !this.failedExtensions.includes(extension) && this.failedExtensions.push(extension)
+
+            this.hook('preload', { data: { extension, failed: true } })
+
             next(false)
 
             return
@@ -84,6 +98,10 @@ export class EnlightenmentExtensionLoader extends EnlightenmentInputController {
             this.extensionInstances[extension].catch((exception) => {
               this.log(exception, 'error')
 
+              !this.failedExtensions.includes(extension) && this.failedExtensions.push(extension)
+
+              this.hook('preload', { data: { extension, failed: true } })
+
               next(false)
             })
 
@@ -91,6 +109,9 @@ export class EnlightenmentExtensionLoader extends EnlightenmentInputController {
             this.extensionInstances[extension].then(() => {
               this.log(`Extension imported: ${this.uuid}@${extension}`, 'info')
 
+              !this.preloadedExtensions.includes(extension) &&
+                this.preloadedExtensions.push(extension)
+
               this.hook('preload', { data: { extension } })
 
               next(true)
@@ -124,4 +145,39 @@ export class EnlightenmentExtensionLoader extends EnlightenmentInputController {
       exception && this.log(exception, 'error')
     }
   }
+
+  /**
+   * Resolves with the Component when the defined extension, or all the
+   * defined [extensions] have been imported. Resolves directly when the
+   * extensions have been imported already and rejects when an extension is
+   * not defined within the [extensions] or could not be imported.
+   *
+   * @param extension Only wait for the defined extension name.
+   * @param timeout Reject after the defined timeout in MS.
+   */
+  public whenPreloaded(extension?: string, timeout?: number): Promise<this> {
+    const names = extension ? [extension] : this.extensions || []
+
+    const useFailed = () =>
+      names.filter(
+        (name) => !(this.extensions || []).includes(name) || this.failedExtensions.includes(name)
+      )
+
+    const isSettled = () =>
+      useFailed().length > 0 || names.every((name) => this.preloadedExtensions.includes(name))
+
+    const settle = () => {
+      const failed = useFailed()
+
+      return failed.length
+        ? Promise.reject(new Error(`${this.uuid} unable to preload: ${failed.join(', ')}`))
+        : Promise.resolve(this)
+    }
+
+    if (isSettled()) {
+      return settle()
+    }
+
+    return this.waitFor('preload', isSettled, timeout).then(settle)
+  }
 }
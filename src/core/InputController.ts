@@ -3,7 +3,8 @@ import {
   EnlightenmentInputControllerCallbackOptions,
   EnlightenmentInputControllerPointerData,
   EnlightenmentInteractionData,
-  EnlightenmentInteractionEndCallback
+  EnlightenmentInteractionEndCallback,
+  EnlightenmentInteractionSample
 } from '../_types/main'
 
 import { eventOptions } from './Mixins'
@@ -16,10 +17,14 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
    * Assign the required keyboard control codes to a semantic name.
    */
   static keyCodes = {
+    // Keyboard arrow keys: left, up, right & down
+    arrows: [37, 38, 39, 40],
     // Keyboard action trigger signal
     confirm: [13, 32],
     // Keyboard action exit signal
     exit: [27],
+    // Keyboard history signal to use with the Control or Meta key
+    history: [90],
     // Keyboard additional action trigger signal
     meta: [9, 16, 17, 18, 20]
   }
@@ -31,6 +36,78 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
    */
   static interactionTypes = ['move', 'move-x', 'move-y', 'resize', 'resize-x', 'resize-y']
 
+  /**
+   * Flag that is TRUE when the Pointer Events interface is supported within
+   * the current environment.
+   */
+  static supportsPointerEvents = typeof EnlightenmentColorHelper.Global.PointerEvent === 'function'
+
+  /**
+   * Defines the duration in milliseconds of the Pointer samples that are used
+   * to calculate the current velocity.
+   */
+  static velocityWindow = 100
+
+  /**
+   * Returns the angle in degrees between the defined positions.
+   *
+   * @param x1 The X position of the first Pointer.
+   * @param y1 The Y position of the first Pointer.
+   * @param x2 The X position of the second Pointer.
+   * @param y2 The Y position of the second Pointer.
+   */
+  static useAngle(x1: number, y1: number, x2: number, y2: number) {
+    return (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI
+  }
+
+  /**
+   * Returns the distance in pixels between the defined positions.
+   *
+   * @param x1 The X position of the first Pointer.
+   * @param y1 The Y position of the first Pointer.
+   * @param x2 The X position of the second Pointer.
+   * @param y2 The Y position of the second Pointer.
+   */
+  static useDistance(x1: number, y1: number, x2: number, y2: number) {
+    return Math.hypot(x2 - x1, y2 - y1)
+  }
+
+  /**
+   * Returns the velocity in pixels per millisecond for both X & Y axis between
+   * the first and last defined Pointer sample.
+   *
+   * @param samples The Pointer samples to use.
+   */
+  static useVelocity(samples?: EnlightenmentInteractionSample[]) {
+    if (!samples || samples.length < 2) {
+      return [0, 0]
+    }
+
+    const first = samples[0]
+    const last = samples[samples.length - 1]
+    const duration = last.timestamp - first.timestamp
+
+    if (duration <= 0) {
+      return [0, 0]
+    }
+
+    return [(last.x - first.x) / duration, (last.y - first.y) / duration]
+  }
+
+  /**
+   * Validates if the defined Event is created from the Pointer Events
+   * interface. The Pointer Event also inherits from the Mouse Event and should
+   * be validated before any Mouse Event.
+   *
+   * @param event The Event to validate.
+   */
+  static isPointerEvent(event?: Event): event is PointerEvent {
+    return (
+      EnlightenmentInputController.supportsPointerEvents &&
+      event instanceof EnlightenmentColorHelper.Global.PointerEvent
+    )
+  }
+
   /**
    * Should contain the updated Resize values for the selected Drag context.
    */
@@ -44,6 +121,12 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
   interactionHost?: HTMLElement
   interactionTarget?: HTMLElement
 
+  /**
+   * Should hold the current position of each Pointer or Touch that is used
+   * during a multi-touch gesture.
+   */
+  currentGesturePointers: { [key: number]: [number, number] } = {}
+
   /**
    * Should hold the current edge value while isGrabbed equals TRUE.
    */
@@ -62,6 +145,13 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
    */
   currentInteractionOrigin?: Element
 
+  /**
+   * Use the unified Pointer Events interface for Mouse, Touch and Pen input
+   * while TRUE and supported. The separate Mouse and Touch Events are used as
+   * fallback otherwise.
+   */
+  enablePointerEvents?: boolean = true
+
   /**
    * Optional flag that should be used by the loaded FocusTrap custom Element to
    * hold the current focus within the defined context.
@@ -86,6 +176,26 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
   previousPointerX?: number
   previousPointerY?: number
 
+  /**
+   * Assigns the defined Pointer position as sample for the current velocity
+   * and removes the samples outside the velocity window.
+   *
+   * @param x The current horizontal Pointer position.
+   * @param y The current vertical Pointer position.
+   */
+  protected assignSample(x: number, y: number) {
+    const timestamp = this.useTimestamp()
+    const samples = this.useSamples(timestamp)
+
+    samples.push({ timestamp, x, y })
+
+    const [speedX, speedY] = EnlightenmentInputController.useVelocity(samples)
+
+    this.currentInteraction.samples = samples
+    this.currentInteraction.speedX = speedX
+    this.currentInteraction.speedY = speedY
+  }
+
   /**
    * Assigns a new Interaction response callback that should end the current
    * interaction. This should stop any interaction when the Pointer position
@@ -204,6 +314,11 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
   ) {
     return new Promise<boolean>((resolve) => {
       try {
+        // Only end the active gesture for the released secondary Pointer.
+        if (event && this.handleGestureEnd(event)) {
+          return resolve(false)
+        }
+
         if (
           (event && !this.currentInteraction.event) ||
           (event && !this.isCurrentInteractionEvent(event, this.currentInteraction.event))
@@ -244,10 +359,29 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
           true
         )
 
-        this.omitGlobalEvent('mousemove', this.handleDragUpdate)
-        this.omitGlobalEvent('mouseup', this.handleDragEnd)
-        this.omitGlobalEvent('touchmove', this.handleDragUpdate)
-        this.omitGlobalEvent('touchend', this.handleDragEnd)
+        if (EnlightenmentInputController.isPointerEvent(this.currentInteraction.event)) {
+          const { pointerId } = this.currentInteraction
+
+          if (pointerId !== undefined && this.hasPointerCapture(pointerId)) {
+            this.releasePointerCapture(pointerId)
+          }
+
+          // Release the secondary Pointers of the active gesture.
+          Object.keys(this.currentGesturePointers).forEach((id) => {
+            this.hasPointerCapture(parseInt(id)) && this.releasePointerCapture(parseInt(id))
+          })
+
+          this.omitGlobalEvent('pointermove', this.handleDragUpdate)
+          this.omitGlobalEvent('pointerup', this.handleDragEnd)
+          this.omitGlobalEvent('pointercancel', this.handleDragEnd)
+        } else {
+          this.omitGlobalEvent('mousemove', this.handleDragUpdate)
+          this.omitGlobalEvent('mouseup', this.handleDragEnd)
+          this.omitGlobalEvent('touchmove', this.handleDragUpdate)
+          this.omitGlobalEvent('touchend', this.handleDragEnd)
+        }
+
+        this.currentGesturePointers = {}
 
         !willRender && resolve(false)
       } catch (exception) {
@@ -299,6 +433,12 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
 
     event.preventDefault && event.preventDefault()
 
+    // Use the additional Pointer or Touch as gesture while the initial
+    // interaction is active.
+    if (this.isGrabbed && this.handleGestureStart(event)) {
+      return
+    }
+
     // Ensures to only use the initial Pointer Mouse or Touch Event.
     if (
       this.currentInteraction.event &&
@@ -307,6 +447,11 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
       return
     }
 
+    // Ignore the secondary Pointers without an active interaction.
+    if (EnlightenmentInputController.isPointerEvent(event) && !event.isPrimary) {
+      return
+    }
+
     if (event instanceof MouseEvent) {
       // Only listen for the main Mouse button.x
       if (event.button !== 0) {
@@ -402,6 +547,32 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
 
     this.handleCurrentElement(this)
 
+    if (EnlightenmentInputController.isPointerEvent(event)) {
+      this.usePointerData(event)
+
+      this.currentGesturePointers = {}
+      this.currentGesturePointers[event.pointerId] = [clientX, clientY]
+
+      // Capture the Pointer to ensure the interaction continues outside the
+      // initial target or within an iframe.
+      try {
+        this.setPointerCapture(event.pointerId)
+      } catch (exception) {
+        exception && this.log(exception, 'warning')
+      }
+
+      this.assignGlobalEvent('pointermove', this.handleDragUpdate, {
+        context: document.documentElement
+      })
+
+      // Secondary Pointers are released with the same Event types and the
+      // handlers are removed within handleDragEnd instead.
+      this.assignGlobalEvent('pointerup', this.handleDragEnd)
+      this.assignGlobalEvent('pointercancel', this.handleDragEnd)
+
+      return
+    }
+
     this.assignGlobalEvent('mousemove', this.handleDragUpdate, {
       context: document.documentElement
     })
@@ -456,6 +627,8 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
       return
     }
 
+    this.handleGestureUpdate(event)
+
     // Don't continue if the initial Event instance does not match with the
     // current Event parameter value.
     if (!this.isCurrentInteractionEvent(event, this.currentInteraction.event as any)) {
@@ -464,6 +637,10 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
 
     const [clientX, clientY] = this.usePointerPosition(event)
 
+    if (EnlightenmentInputController.isPointerEvent(event)) {
+      this.usePointerData(event)
+    }
+
     // this.currentInteractionCount += 1
     if (this.currentInteraction.updates !== undefined) {
       this.currentInteraction.updates += 1
@@ -507,6 +684,8 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
       this.currentInteraction.velocityY = 0
     }
 
+    this.assignSample(clientX, clientY)
+
     if (this.isCenterPivot()) {
       const ariaTarget = this.currentInteraction.context
 
@@ -527,11 +706,10 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
       this.currentInteraction.previousPointerY = clientY
     }
 
-    // @TODO Should use dynamic viewport context.
-    const viewport = this.useBoundingRect()
+    const viewport = this.useEdgeViewport()
 
     // Increase the drag precision instead of the a single pixel.
-    const precision = Math.ceil(EnlightenmentColorHelper.devicePixelRatio * 2)
+    const precision = this.useEdgeZone()
 
     // Assign the current edge for both X & Y axis with the defined threshold.
     //          [top]
@@ -541,7 +719,7 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
     //        [bottom]
     if (clientX <= viewport.left + precision) {
       this.currentInteraction.edgeX = -1
-    } else if (clientX >= viewport.width - precision) {
+    } else if (clientX >= viewport.left + viewport.width - precision) {
       this.currentInteraction.edgeX = 1
     } else {
       this.currentInteraction.edgeX = 0
@@ -549,7 +727,7 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
 
     if (clientY <= viewport.top + precision) {
       this.currentInteraction.edgeY = -1
-    } else if (clientY >= viewport.height - precision) {
+    } else if (clientY >= viewport.top + viewport.height - precision) {
       this.currentInteraction.edgeY = 1
     } else {
       this.currentInteraction.edgeY = 0
@@ -557,7 +735,7 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
 
     // Failsafe that should exit the current Drag interaction while the current
     // pointer position is outisde the area for a certain duration.
-    if (!this.isWithinViewport(clientX, clientY)) {
+    if (!this.isWithinViewport(clientX, clientY, globalThis)) {
       this.assignCurrentDragTimeout()
     } else {
       this.clearCurrentDragTimeout()
@@ -590,6 +768,199 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
     return [deltaX, deltaY]
   }
 
+  /**
+   * Removes the released secondary Pointer from the active gesture and resets
+   * the gesture values. Returns TRUE when the defined Event was released from
+   * a secondary Pointer.
+   *
+   * @param event The released Pointer Event.
+   */
+  protected handleGestureEnd(event: MouseEvent | TouchEvent) {
+    if (!EnlightenmentInputController.isPointerEvent(event)) {
+      return false
+    }
+
+    if (
+      event.pointerId === this.currentInteraction.pointerId ||
+      !this.currentGesturePointers[event.pointerId]
+    ) {
+      return false
+    }
+
+    delete this.currentGesturePointers[event.pointerId]
+
+    this.hasPointerCapture(event.pointerId) && this.releasePointerCapture(event.pointerId)
+
+    this.resetGesture()
+
+    return true
+  }
+
+  /**
+   * Assigns the additional Pointer or Touch to the current gesture while the
+   * initial interaction is active. Returns TRUE when the defined Event is used
+   * as gesture.
+   *
+   * @param event The additional Pointer or Touch Event.
+   */
+  protected handleGestureStart(event: MouseEvent | TouchEvent) {
+    const { event: initialEvent, pointerId } = this.currentInteraction
+
+    if (
+      EnlightenmentInputController.isPointerEvent(event) &&
+      EnlightenmentInputController.isPointerEvent(initialEvent)
+    ) {
+      if (event.pointerId === pointerId) {
+        return false
+      }
+
+      this.currentGesturePointers[event.pointerId] = [event.clientX, event.clientY]
+
+      try {
+        this.setPointerCapture(event.pointerId)
+      } catch (exception) {
+        exception && this.log(exception, 'warning')
+      }
+
+      this.resetGesture()
+
+      return true
+    }
+
+    if (
+      event instanceof TouchEvent &&
+      initialEvent instanceof TouchEvent &&
+      event.touches.length > 1
+    ) {
+      this.resetGesture()
+
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * Updates the pinch distance and rotation angle of the current gesture from
+   * the first 2 active Pointers or Touches and dispatch the pinch & rotate
+   * hooks when changed.
+   *
+   * @param event The updated Pointer or Touch Event.
+   */
+  protected handleGestureUpdate(event: MouseEvent | TouchEvent) {
+    if (EnlightenmentInputController.isPointerEvent(event)) {
+      if (!this.currentGesturePointers[event.pointerId]) {
+        return
+      }
+
+      this.currentGesturePointers[event.pointerId] = [event.clientX, event.clientY]
+    } else if (event instanceof TouchEvent) {
+      if (event.touches.length < 2) {
+        return
+      }
+
+      this.currentGesturePointers = {}
+
+      Array.from(event.touches)
+        .slice(0, 2)
+        .forEach((touch) => {
+          this.currentGesturePointers[touch.identifier] = [touch.clientX, touch.clientY]
+        })
+    } else {
+      return
+    }
+
+    const pointers = Object.values(this.currentGesturePointers)
+
+    if (pointers.length < 2) {
+      return
+    }
+
+    const [[x1, y1], [x2, y2]] = pointers
+    const distance = EnlightenmentInputController.useDistance(x1, y1, x2, y2)
+    const angle = EnlightenmentInputController.useAngle(x1, y1, x2, y2)
+
+    if (this.currentInteraction.gestureInitialDistance === undefined) {
+      this.currentInteraction.gestureInitialDistance = distance
+      this.currentInteraction.gestureInitialAngle = angle
+    }
+
+    const { gestureAngle, gestureDistance, gestureInitialAngle, gestureInitialDistance } =
+      this.currentInteraction
+
+    const scale = gestureInitialDistance ? distance / gestureInitialDistance : 1
+
+    // Ensure the rotation is defined between -180 and 180 degrees.
+    let rotation = angle - (gestureInitialAngle || 0)
+
+    if (rotation > 180) {
+      rotation -= 360
+    } else if (rotation < -180) {
+      rotation += 360
+    }
+
+    this.currentInteraction.gestureAngle = angle
+    this.currentInteraction.gestureCenterX = (x1 + x2) / 2
+    this.currentInteraction.gestureCenterY = (y1 + y2) / 2
+    this.currentInteraction.gestureDistance = distance
+    this.currentInteraction.gestureRotation = rotation
+    this.currentInteraction.gestureScale = scale
+
+    const context = this.interactionHost || this
+
+    if (distance !== gestureDistance) {
+      this.hook(EnlightenmentInputController.defaults.customEvents.pinch, {
+        context,
+        data: { distance, scale }
+      })
+    }
+
+    if (angle !== gestureAngle) {
+      this.hook(EnlightenmentInputController.defaults.customEvents.rotate, {
+        context,
+        data: { angle, rotation }
+      })
+    }
+
+    if (distance !== gestureDistance || angle !== gestureAngle) {
+      this.handleGestureUpdateCallback(scale, rotation)
+    }
+  }
+
+  /**
+   * Placeholder callback that is called after the pinch distance or rotation
+   * angle of the current gesture has changed.
+   *
+   * @param scale The scale value between the initial and current distance.
+   * @param rotation The rotation in degrees since the initial gesture angle.
+   */
+  protected handleGestureUpdateCallback(scale: number, rotation: number) {
+    return [scale, rotation]
+  }
+
+  /**
+   * Returns TRUE while multiple Pointers or Touches are used during the
+   * current interaction.
+   */
+  protected hasActiveGesture() {
+    return this.currentInteraction.gestureDistance !== undefined
+  }
+
+  /**
+   * Clears the gesture values of the current interaction to ensure the next
+   * gesture is calculated from the updated Pointer positions.
+   */
+  protected resetGesture() {
+    this.currentInteraction.gestureAngle = undefined
+    this.currentInteraction.gestureCenterX = undefined
+    this.currentInteraction.gestureCenterY = undefined
+    this.currentInteraction.gestureDistance = undefined
+    this.currentInteraction.gestureInitialAngle = undefined
+    this.currentInteraction.gestureInitialDistance = undefined
+    this.currentInteraction.gestureRotation = undefined
+    this.currentInteraction.gestureScale = undefined
+  }
+
   /**
    * Defines the global keyboard Event listener for the element context.
    *
@@ -638,6 +1009,18 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
       return false
     }
 
+    // Only accept the Pointer that initiated the current interaction.
+    if (EnlightenmentInputController.isPointerEvent(initialEvent)) {
+      return (
+        EnlightenmentInputController.isPointerEvent(event) &&
+        event.pointerId === initialEvent.pointerId
+      )
+    }
+
+    if (EnlightenmentInputController.isPointerEvent(event)) {
+      return false
+    }
+
     if (
       event instanceof MouseEvent &&
       initialEvent &&
@@ -665,6 +1048,71 @@ export class EnlightenmentInputController extends EnlightenmentColorHelper {
     return !initialEvent ? true : false
   }
 
+  /**
+   * Returns the client area that is used to assign the current edge of the
+   * Drag interaction.
+   */
+  protected useEdgeViewport() {
+    return this.useBoundingRect()
+  }
+
+  /**
+   * Returns the size in pixels of the viewport edge area that is used to
+   * assign the current edge of the Drag interaction.
+   */
+  protected useEdgeZone() {
+    return Math.ceil(EnlightenmentColorHelper.devicePixelRatio * 2)
+  }
+
+  /**
+   * Returns the Pointer samples of the current interaction that exist within
+   * the velocity window.
+   *
+   * @param timestamp Compare the samples with the defined timestamp.
+   */
+  protected useSamples(timestamp: number) {
+    return (this.currentInteraction.samples || []).filter(
+      (sample) => timestamp - sample.timestamp <= EnlightenmentInputController.velocityWindow
+    )
+  }
+
+  /**
+   * Returns the current velocity in pixels per millisecond for both X & Y
+   * axis, the velocity is 0 when the Pointer has not moved within the
+   * velocity window.
+   */
+  protected useVelocity() {
+    return EnlightenmentInputController.useVelocity(this.useSamples(this.useTimestamp()))
+  }
+
+  /**
+   * Assigns the additional Pointer Event values to the current interaction,
+   * like the pressure and input type of a Pen device.
+   *
+   * @param event Use the values from the defined Pointer Event.
+   */
+  protected usePointerData(event: PointerEvent) {
+    if (!event) {
+      return
+    }
+
+    this.currentInteraction.pointerId = event.pointerId
+    this.currentInteraction.pointerType = event.pointerType
+    this.currentInteraction.pressure = event.pressure
+    this.currentInteraction.tiltX = event.tiltX
+    this.currentInteraction.tiltY = event.tiltY
+  }
+
+  /**
+   * Returns TRUE when the Pointer Events interface should be used for the
+   * Drag interaction.
+   */
+  protected usePointerEvents() {
+    return this.enablePointerEvents && EnlightenmentInputController.supportsPointerEvents
+      ? true
+      : false
+  }
+
   /**
    * Returns the clientX and clientY of the defined Pointer context.
    *
@@ -1,8 +1,19 @@
 import { Enlightenment } from '../Enlightenment'
 
 import {
+  EnlightenmentDefaults,
+  EnlightenmentEvent,
+  EnlightenmentEventHandler,
+  EnlightenmentEventMap,
+  EnlightenmentEventName,
+  EnlightenmentLogLevel,
+  EnlightenmentNativeEventMap,
   EnlightenmentProcessHandler,
-  EnlightenmentThrottle,
+  EnlightenmentSchema,
+  EnlightenmentSchemaRule,
+  EnlightenmentSchedulerOptions,
+  EnlightenmentStoreSelectors,
+  EnlightenmentTransaction,
   GlobalEvent,
   GlobalEventHandler,
   GlobalEventOptions,
@@ -13,6 +24,10 @@ import {
 import { EnlightenmentMixins, property } from './Mixins'
 
 import { EnlightenmentGlobals } from '../providers/Globals'
+import { EnlightenmentLogger } from '../providers/Logger'
+import { EnlightenmentScheduler } from '../providers/Scheduler'
+import { EnlightenmentScopes } from '../providers/Scopes'
+import { EnlightenmentStore } from '../providers/Store'
 
 /**
  * Defines the actual Enlightenment Class entry point with the required
@@ -20,7 +35,7 @@ import { EnlightenmentGlobals } from '../providers/Globals'
  */
 
 export class EnlightenmentKernel extends EnlightenmentMixins {
-  static defaults = {
+  static defaults: EnlightenmentDefaults = {
     slot: '_content',
     attr: {
       axis: 'axis',
@@ -33,9 +48,19 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
     },
     customEvents: {
       dragEnd: 'dragend',
-      dragStart: 'dragstart'
+      dragEnter: 'dragenter',
+      dragLeave: 'dragleave',
+      dragStart: 'dragstart',
+      drop: 'drop',
+      guides: 'guides',
+      history: 'history',
+      pinch: 'pinch',
+      rotate: 'rotate',
+      snap: 'snap',
+      thresholdX: 'threshold-x',
+      thresholdY: 'threshold-y'
     },
-    passiveEventTypes: ['mousemove', 'resize', 'scroll', 'touchmove', 'wheel']
+    passiveEventTypes: ['mousemove', 'pointermove', 'resize', 'scroll', 'touchmove', 'wheel']
   }
 
   static MAX_THREADS = 128
@@ -51,12 +76,105 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
 
   static webfontExtensions = ['.woff', '.woff2']
 
+  /**
+   * Defines the validation rules for the Component properties that are
+   * applied to the converted attribute values and each commit. Subclasses
+   * should extend the schema of the parent Component:
+   *
+   * static schema = { ...Enlightenment.schema, foo: { type: 'number', min: 0 } }
+   */
+  static schema: EnlightenmentSchema = {}
+
+  /**
+   * Selects the slices of the shared Store state that are assigned to the
+   * selected property of the Component. The Component is only updated when a
+   * selected slice has changed:
+   *
+   * static selectors = { count: (state) => state.count }
+   */
+  static selectors: EnlightenmentStoreSelectors = {}
+
+  /**
+   * Returns the reason why the defined value is rejected by the defined rule
+   * or undefined when the value is valid.
+   *
+   * @param value Validate the defined value.
+   * @param rule Validate with the defined rule.
+   */
+  static validateValue(value: any, rule?: EnlightenmentSchemaRule) {
+    if (!rule) {
+      return
+    }
+
+    if (value === undefined || value === null) {
+      return rule.required ? 'A value is required' : undefined
+    }
+
+    const { max, min, type, validate } = rule
+
+    if (type === 'array' && !Array.isArray(value)) {
+      return 'Expected an array value'
+    } else if (type === 'number' && (typeof value !== 'number' || isNaN(value))) {
+      return 'Expected a number value'
+    } else if (type === 'object' && (typeof value !== 'object' || Array.isArray(value))) {
+      return 'Expected an object value'
+    } else if (['boolean', 'string'].includes(type || '') && typeof value !== type) {
+      return `Expected a ${type} value`
+    }
+
+    if (rule.enum && !rule.enum.includes(value)) {
+      return `Expected one of: ${rule.enum.join(', ')}`
+    }
+
+    if (typeof value === 'number' && min !== undefined && value < min) {
+      return `Expected a value of at least ${min}`
+    }
+
+    if (typeof value === 'number' && max !== undefined && value > max) {
+      return `Expected a value of at most ${max}`
+    }
+
+    if (typeof validate === 'function') {
+      const result = validate(value)
+
+      if (typeof result === 'string') {
+        return result
+      } else if (!result) {
+        return 'Rejected by the custom validator'
+      }
+    }
+
+    return
+  }
+
   /**
    * Defines the Global variables within the constructed Enlightenment
    * instances.
    */
   static globals = new EnlightenmentGlobals(EnlightenmentKernel.NAMESPACE)
 
+  /**
+   * Contains the scoped Globals of the attached scope roots and uses the
+   * default Globals outside any scope.
+   * @see useGlobals()
+   */
+  static scopes = new EnlightenmentScopes(EnlightenmentKernel.globals)
+
+  /**
+   * Writes the structured log records of the constructed Enlightenment
+   * instances.
+   * @see log()
+   */
+  static logger = new EnlightenmentLogger()
+
+  /**
+   * Contains the state that is shared between the constructed Enlightenment
+   * instances outside any scope and writes the dispatched actions to the
+   * Kernel logger.
+   * @see useStore()
+   */
+  static store = new EnlightenmentStore({}, EnlightenmentKernel.logger)
+
   /**
    * Optional timeout value for the defined throttle handler.
    * @see throttle()
@@ -78,11 +196,24 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
   handle?: string
 
   /**
-   * Will call the defined process method from the constructed instance if the
-   * defined value exists within the current DOM.
+   * Overrides the log threshold of the Logger for the defined Component.
    */
-  @property({ converter: (value) => EnlightenmentMixins.convertToSelector, type: Array })
-  observe?: NodeList
+  @property({
+    attribute: 'log-level',
+    converter: (value) =>
+      value ? EnlightenmentLogger.useLevel(value, EnlightenmentKernel.logger.level) : undefined,
+    type: String
+  })
+  logLevel?: EnlightenmentLogLevel
+
+  /**
+   * Will call the defined process method from the constructed instance when
+   * any Element that matches the defined selectors is updated. The selectors
+   * are resolved while the matching Elements are added or removed:
+   * observe=".foo,#bar,custom-component".
+   */
+  @property({ type: String })
+  observe?: string
 
   /**
    * Optional Flag that will prevent the usage of requestUpdate during an
@@ -98,12 +229,6 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
   @property({ converter: EnlightenmentMixins.isBoolean, type: Boolean })
   pending?: boolean
 
-  /**
-   * Holds the current cleanup timeout ID that will cleanup the obsolete
-   * throttlers and temporary values.
-   */
-  cid?: ReturnType<typeof setTimeout>
-
   /**
    * Boolean flag that should mutate only once to indicate the Component has
    * been rendered with the optional (sub) slots.
@@ -116,6 +241,50 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
    */
   enableDocumentEvents?: boolean = false
 
+  /**
+   * The Globals of the nearest scope root that is resolved while connecting
+   * the Component, or the default Globals otherwise.
+   * @see useGlobals()
+   */
+  globals: EnlightenmentGlobals = EnlightenmentKernel.globals
+
+  /**
+   * Collects the commits while a transaction is active.
+   * @see transaction()
+   */
+  currentTransaction?: EnlightenmentTransaction
+
+  /**
+   * The attribute name that is currently restored after a rejected value.
+   */
+  revertedAttribute?: string
+
+  /**
+   * The property name of the rejected value that is exposed within [error].
+   */
+  rejectedProperty?: string
+
+  /**
+   * Contains the current Elements that match the [observe] selectors.
+   */
+  observedElements: HTMLElement[] = []
+
+  /**
+   * Resolves the [observe] selectors when the observed DOM is mutated.
+   */
+  observer?: MutationObserver
+
+  /**
+   * Contains the current slices of the shared Store state from the static
+   * selectors of the Component.
+   */
+  selected: { [name: string]: any } = {}
+
+  /**
+   * Contains the unsubscribe handlers of the assigned selectors.
+   */
+  selectorSubscriptions: Function[] = []
+
   /**
    * Dynamic storage for the assigned global Events.
    * @see assignGlobalEvent
@@ -139,11 +308,11 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
   pid?: number
 
   /**
-   * Contains the assigned throttle() handlers that will be called after the
-   * defined delay.
-   * @see throttle()
+   * Defers the handlers that are assigned from schedule() and throttle()
+   * within the Component context.
+   * @see schedule()
    */
-  throttler: { delay: number; handlers: EnlightenmentThrottle[] }
+  scheduler: EnlightenmentScheduler
 
   /**
    * Alias for the instance name.
@@ -155,28 +324,9 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
 
     this.uuid = this.constructor.name
 
-    this.throttler = {
-      delay: parseInt(String(this.delay)) || EnlightenmentKernel.FPS,
-      handlers: []
-    }
-  }
-
-  /**
-   * Callback handler that should cleanup the obsolete throttle handlers that
-   * have been called or canceled.
-   */
-  private cleanup() {
-    this.cid != null && clearTimeout(this.cid)
-
-    if (this.throttler.handlers.length <= EnlightenmentKernel.MAX_THREADS) {
-      return
-    }
-
-    this.cid = setTimeout(
-      () => {
-        this.throttler.handlers = this.throttler.handlers.filter((h) => h != null)
-      },
-      this.throttler.handlers.length + this.delay * EnlightenmentKernel.MAX_THREADS
+    this.scheduler = new EnlightenmentScheduler(
+      this,
+      parseInt(String(this.delay)) || EnlightenmentKernel.FPS
     )
   }
 
@@ -212,17 +362,46 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
     }
   }
 
+  /**
+   * Subscribes to the static selectors of the Component and requests an
+   * update only when a selected slice of the shared Store state has changed.
+   */
+  protected assignSelectors() {
+    const { selectors } = this.constructor as typeof EnlightenmentKernel
+    const store = this.useStore()
+
+    this.omitSelectors()
+
+    Object.entries(selectors || {}).forEach(([name, selector]) => {
+      if (typeof selector !== 'function') {
+        this.log(`Unable to assign undefined selector: ${name}`, 'warning')
+
+        return
+      }
+
+      this.selected[name] = store.select(selector)
+
+      this.selectorSubscriptions.push(
+        store.subscribe(selector, (value, previous) => {
+          this.selected = { ...this.selected, [name]: value }
+          this.requestUpdate('selected', { ...this.selected, [name]: previous })
+        })
+      )
+    })
+  }
+
   /**
    * Assigns a new global event for the rendered component context.
    * The actual event is stored within the instance to prevent Event stacking.
    *
    * @param type The Event type to assign.
-   * @param handler The Event handler to assign.
+   * @param handler The Event handler to assign, the handler of a declared hook
+   * should accept the payload from the EnlightenmentEventMap.
    * @param options The optional Event options to assign.
    */
-  protected assignGlobalEvent(
-    type: GlobalEventType,
-    handler: GlobalEventHandler,
+  protected assignGlobalEvent<K extends GlobalEventType>(
+    type: K,
+    handler: K extends EnlightenmentEventName ? EnlightenmentEventHandler<K> : GlobalEventHandler,
     options?: GlobalEventOptions
   ) {
     if (!type) {
@@ -312,15 +491,14 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
    * 'updated' event.
    */
   protected clearListeners() {
-    if (!this.observe || !this.observe.length) {
-      return
+    if (this.observer) {
+      this.observer.disconnect()
+      this.observer = undefined
     }
 
-    const queue = Array.from(this.observe).filter((l) => l !== this)
+    const queue = this.observedElements.filter((l) => l !== this)
 
-    if (!queue.length) {
-      return
-    }
+    this.observedElements = []
 
     for (let i = queue.length; i--; ) {
       this.clearGlobalEvent('updated', queue[i])
@@ -332,29 +510,32 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
    * timeout.
    */
   protected clearThrottler() {
-    const { handlers } = this.throttler
-
-    if (!handlers || !handlers.length) {
+    if (!this.scheduler) {
       return
     }
 
-    handlers.forEach(([fn, timeout], index) => {
-      if (timeout) {
-        clearTimeout(timeout)
+    const size = this.scheduler.clear()
 
-        this.log(['Throttle cleared:', fn])
-      }
-    })
+    size && this.log([`${this.uuid} scheduler cleared:`, size])
+  }
 
-    this.throttler.handlers = []
+  /**
+   * Dispatches the defined action to the shared Store state with the
+   * Component as source of the logged action.
+   *
+   * @param type Dispatch the action of the defined type.
+   * @param payload Use the defined payload within the Store reducer.
+   */
+  protected dispatchAction(type: string, payload?: any) {
+    return this.useStore().dispatch(type, payload, this.uuid)
   }
 
   /**
    * Default hook that should be called to enforce a Component (re)render.
    *
-   * @param name Dispatch the optional Event type instead.
+   * @param name Dispatch the optional hook name instead.
    */
-  protected dispatchUpdate(name?: string) {
+  protected dispatchUpdate(name?: EnlightenmentEventName) {
     return this.throttle(this.hook, this.delay, typeof name === 'string' ? name : 'updated')
   }
 
@@ -390,31 +571,32 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
   }
 
   /**
-   * Alias for the default console to use during development.
+   * Writes the defined message as structured record to the Logger. The record
+   * is written when the level reaches the [log-level] of the Component, or
+   * the Logger threshold. Any level is accepted while the verbose Global is
+   * enabled.
    *
    * @param message The actual message values.
-   * @param type Use the defined Console method instead of the default log.
+   * @param type Use the defined log level instead of the default log.
    */
   protected log(message: any | any[], type?: string) {
-    const t = type === 'warning' ? 'warn' : type || 'log'
-    const stdout = (console as any)[t]
-
-    if (typeof stdout !== 'function') {
-      return
-    }
-
-    const output = (Array.isArray(message) ? message : [message]).map((entry) =>
-      typeof entry === 'function' ? [entry] : entry
+    const level = EnlightenmentLogger.useLevel(type)
+    const { logger } = EnlightenmentKernel
+    const globals = this.globals || EnlightenmentKernel.globals
+
+    logger.write(
+      {
+        level,
+        message: Array.isArray(message) ? message : [message],
+        namespace: this.namespace,
+        timestamp: Date.now(),
+        uuid: this.uuid
+      },
+      this.logLevel || (globals.verbose ? 'debug' : undefined)
     )
 
-    const { verbose } = EnlightenmentKernel.globals
-
-    if (verbose || t === 'error') {
-      stdout(...output)
-
-      if (t === 'error') {
-        this.hook('error', { data: { message } })
-      }
+    if (level === 'error') {
+      this.hook('error', { data: { message } })
     }
   }
 
@@ -463,6 +645,38 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
     this.dispatchUpdate('omit')
   }
 
+  /**
+   * Removes the Store subscriptions of the assigned selectors.
+   */
+  protected omitSelectors() {
+    this.selectorSubscriptions.forEach((unsubscribe) => unsubscribe())
+    this.selectorSubscriptions = []
+  }
+
+  /**
+   * Returns the Globals from the nearest scope root of the Component.
+   */
+  protected useGlobals() {
+    return EnlightenmentKernel.scopes.use(this)
+  }
+
+  /**
+   * Returns the Store of the current Globals. The default Globals use the
+   * static Store while each scope creates a separate Store once.
+   */
+  protected useStore() {
+    const { globals } = this
+
+    if (!globals.store) {
+      globals.store =
+        globals === EnlightenmentKernel.globals
+          ? EnlightenmentKernel.store
+          : new EnlightenmentStore({}, EnlightenmentKernel.logger)
+    }
+
+    return globals.store
+  }
+
   /**
    * Calls the defined function handler for the existing Observer HTMl elements
    * that wass defined from observe attribute.
@@ -475,9 +689,8 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
     }
 
     try {
-      for (let i = Object.keys(this.observe).length; i--; ) {
-        // this.throttle(handler, Enlightenment.FPS, )
-        handler(this.observe[i] as HTMLElement)
+      for (let i = this.observedElements.length; i--; ) {
+        handler(this.observedElements[i])
       }
     } catch (exception) {
       exception && this.log(exception, 'error')
@@ -510,72 +723,59 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
   }
 
   /**
-   * Helper function that ensures the given handler is only called once within
-   * the defined delay and Component context.
+   * Schedules the defined handler within the Component context with the
+   * defined scheduler mode and returns the task with the cancel handle and
+   * result promise.
    *
-   * @param handler The actual handler to throttle.
-   * @param delay Use the defined delay value in MS or the time of a single
-   * frame (1000 / 60).
-   * @param args Optional arguments to use within the defined handler.
+   * @param handler The actual handler to schedule.
+   * @param options Schedule the handler with the defined options.
    */
-  protected throttle(handler: EnlightenmentThrottle[0], delay?: number, ...args: any[]) {
-    if (!this.throttler || !this.throttler.handlers) {
-      this.log(['Unable to throttle:', handler], 'error')
+  protected schedule(handler: Function, options?: EnlightenmentSchedulerOptions) {
+    if (!this.scheduler) {
+      this.log(['Unable to schedule:', handler], 'error')
 
       return
     }
 
     if (typeof handler !== 'function') {
-      this.log('Unable to use throttle, the defined handler is not a function', 'error')
-    }
-
-    let index = -1
-    const [exists] = this.throttler.handlers.filter(([h, _, ah], i) => {
-      if (h === handler && EnlightenmentMixins.compareValue(args, ah)) {
-        if (index < 0) {
-          index = i
-        }
+      this.log('Unable to use schedule, the defined handler is not a function', 'error')
 
-        return h === handler
-      }
-
-      return undefined
-    })
-
-    if (exists) {
-      this.log([`Abort previous ${this.uuid} throttle:`, exists], 'info')
-
-      const previousTimeout = this.throttler.handlers[index]
-
-      previousTimeout && previousTimeout[1] && clearTimeout(previousTimeout[1])
-
-      delete this.throttler.handlers[index]
+      return
     }
 
-    const ms = parseInt(String(delay)) || this.throttler.delay
-
-    const timeout = setTimeout(() => {
-      // try {
-      handler.call(this, ...args)
+    const { args, mode } = options || {}
 
-      // } catch (exception) {
-      // exception && this.log(exception, 'error')
-      // }
-    }, ms)
+    if (this.scheduler.has(handler, args || [])) {
+      this.log([`Reschedule ${this.uuid} ${mode || 'debounce'}:`, handler], 'info')
+    } else {
+      this.log([`${this.uuid} ${mode || 'debounce'} defined:`, handler, args || []], 'info')
+    }
 
-    this.log([`${this.uuid} throttle defined:`, handler, [...args]], 'info')
+    return this.scheduler.schedule(handler, options)
+  }
 
-    this.throttler.handlers.push([handler, timeout, args])
+  /**
+   * Helper function that ensures the given handler is only called once within
+   * the defined delay and Component context. The previous call with the same
+   * arguments is debounced until the last call.
+   *
+   * @param handler The actual handler to throttle.
+   * @param delay Use the defined delay value in MS or the time of a single
+   * frame (1000 / 60).
+   * @param args Optional arguments to use within the defined handler.
+   */
+  protected throttle(handler: Function, delay?: number, ...args: any[]) {
+    const task = this.schedule(handler, {
+      args,
+      delay: parseInt(String(delay)) || this.scheduler.delay,
+      mode: 'debounce'
+    })
 
-    setTimeout(() => {
-      this.throttler.handlers.forEach(([h], i) => {
-        if (h === handler) {
-          delete this.throttler.handlers[i]
-        }
-      })
+    // Log the exception of the throttled handler since the returned promise
+    // is usually ignored.
+    task && task.promise.catch((exception) => exception && this.log(exception, 'error'))
 
-      this.cleanup()
-    }, ms + 1)
+    return task
   }
 
   /**
@@ -601,15 +801,34 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
 
   /**
    * Ensures the a requestUpdate is used when attribtues are added or removed.
-   * on the defined element.
+   * on the defined element. The property and Attribute are both restored to
+   * the previous value when the Attribute value is rejected by the schema.
    */
   public attributeChangedCallback(name: string, _old: string | null, value: string | null): void {
+    if (this.revertedAttribute === name) {
+      super.attributeChangedCallback(name, _old || null, value || null)
+
+      return
+    }
+
     this.handleAttributeChange()
 
-    if (this.once) {
-      super.attributeChangedCallback(name, _old || null, value || null)
-    } else {
-      super.attributeChangedCallback(name, _old || null, value || null)
+    // Keep the previous property value in order to revert the rejected value.
+    const property = this.useAttributeProperty(name)
+    const previousValue = property ? (this as any)[property] : undefined
+
+    super.attributeChangedCallback(name, _old || null, value || null)
+
+    if (property && !this.validateProperty(property, (this as any)[property])) {
+      this.revertedAttribute = name
+
+      _old === null ? this.removeAttribute(name) : this.setAttribute(name, _old)
+
+      this.revertedAttribute = undefined
+      ;(this as any)[property] = previousValue
+    }
+
+    if (!this.once) {
       this.requestUpdate()
     }
   }
@@ -622,14 +841,18 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
    * @param handler Defines or returns the mutated value.
    */
   public commit(property: string, handler: any) {
+    const transaction = this.currentTransaction
+
     if (!property) {
       this.log([`Unable to commit undefined property`])
+      transaction && transaction.errors.push(property)
 
       return
     }
 
     if (handler === null) {
       this.log([`Unable to commit ${property}`])
+      transaction && transaction.errors.push(property)
 
       return
     }
@@ -640,11 +863,22 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
       //@ts-ignore
       const value = this[property]
 
+      // Keep the initial value in order to rollback the transaction.
+      if (transaction && !transaction.initial.has(property)) {
+        transaction.initial.set(property, value)
+      }
+
       if (typeof handler === 'function') {
         const result = handler()
 
         //@ts-ignore
         if (result !== undefined && typeof result === typeof this[property]) {
+          if (!this.validateProperty(property, result)) {
+            transaction && transaction.errors.push(property)
+
+            return
+          }
+
           //@ts-ignore
           this[property] = result
         }
@@ -652,6 +886,12 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
         update = true
       } else {
         if ((this as any)[property] !== undefined) {
+          if (!this.validateProperty(property, handler)) {
+            transaction && transaction.errors.push(property)
+
+            return
+          }
+
           //@ts-ignore
           this[property] = handler
 
@@ -663,12 +903,14 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
           data[property] = handler
 
           // Use this.hook directly since a throttle will be called by the
-          // component.requestUpdate method.
-          this.hook('commit', { data })
+          // component.requestUpdate method. The transaction dispatches the
+          // hook once with all the commits instead.
+          !transaction && this.hook('commit', { data })
 
           this.log([`${this.namespace} property updated for:`, [property, handler]])
         } else if (!Object.keys(this).includes(property)) {
           this.log(['Illegal property commit detected.', [property, handler]], 'error')
+          transaction && transaction.errors.push(property)
         }
 
         // Prevent the component update if the proposed value is an identical
@@ -685,22 +927,172 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
         ])
 
       // Ensures the property update fires the component callbacks.
-      update && this.requestUpdate(property, value)
+      update && !transaction && this.requestUpdate(property, value)
     } catch (exception) {
       if (exception) {
         this.log(exception, 'error')
 
         update = false
       }
+
+      transaction && transaction.errors.push(exception)
+    }
+  }
+
+  /**
+   * Collects the commits within the defined handler and applies them as a
+   * single update. The commit hook is dispatched once with the changed
+   * properties, while all the commits are reverted when the handler throws or
+   * when any of the commits is rejected. Nested transactions are included
+   * within the initial transaction.
+   *
+   * @param handler Commit the properties within the defined handler.
+   */
+  public transaction(handler: () => void) {
+    if (typeof handler !== 'function') {
+      this.log('Unable to use transaction, the defined handler is not a function', 'error')
+
+      return false
+    }
+
+    if (this.currentTransaction) {
+      handler.call(this)
+
+      return true
+    }
+
+    const transaction: EnlightenmentTransaction = { errors: [], initial: new Map() }
+
+    this.currentTransaction = transaction
+
+    try {
+      handler.call(this)
+    } catch (exception) {
+      transaction.errors.push(exception)
     }
+
+    this.currentTransaction = undefined
+
+    if (transaction.errors.length) {
+      this.rollback(transaction)
+
+      return false
+    }
+
+    const data: { [key: string]: any } = {}
+
+    transaction.initial.forEach((value, property) => {
+      const commit = (this as any)[property]
+
+      if (commit !== value && !EnlightenmentMixins.compareValue(commit, value)) {
+        data[property] = commit
+      }
+    })
+
+    if (!Object.keys(data).length) {
+      return true
+    }
+
+    this.hook('commit', { data })
+
+    this.log([`${this.namespace} transaction accepted from: ${this.uuid}`, data])
+
+    this.requestUpdate()
+
+    return true
+  }
+
+  /**
+   * Reports the rejected property value with the invalid hook and exposes the
+   * reason within the [error] property.
+   *
+   * @param property The rejected property name.
+   * @param value The rejected value.
+   * @param message The reason of the rejection.
+   */
+  protected rejectProperty(property: string, value: any, message: string) {
+    const error = `Invalid ${property} value: ${message}`
+
+    this.log([`${this.uuid} ${error}`, value], 'warning')
+
+    this.hook('invalid', { data: { message, property, value } })
+
+    this.rejectedProperty = property
+    this.error = error
+  }
+
+  /**
+   * Returns the property name that is assigned to the defined attribute name.
+   *
+   * @param name Returns the property of the defined attribute name.
+   */
+  protected useAttributeProperty(name: string) {
+    const { elementProperties } = this.constructor as typeof EnlightenmentKernel
+
+    for (const [property, options] of elementProperties) {
+      const attribute =
+        typeof options.attribute === 'string' ? options.attribute : String(property).toLowerCase()
+
+      if (options.attribute !== false && attribute === name) {
+        return String(property)
+      }
+    }
+
+    return
+  }
+
+  /**
+   * Validates the defined value with the schema rule of the defined property
+   * and rejects the value when it is invalid.
+   *
+   * @param property Use the schema rule of the defined property.
+   * @param value The value to validate.
+   */
+  protected validateProperty(property: string, value: any) {
+    const { schema } = this.constructor as typeof EnlightenmentKernel
+    const message = EnlightenmentKernel.validateValue(value, schema && schema[property])
+
+    if (!message) {
+      // Clear the exposed error of the previous rejected value.
+      if (this.rejectedProperty === property) {
+        this.rejectedProperty = undefined
+        this.error = ''
+      }
+
+      return true
+    }
+
+    this.rejectProperty(property, value, message)
+
+    return false
+  }
+
+  /**
+   * Reverts the committed properties of the defined transaction.
+   *
+   * @param transaction Restore the initial values from the defined
+   * transaction.
+   */
+  protected rollback(transaction: EnlightenmentTransaction) {
+    transaction.initial.forEach((value, property) => {
+      ;(this as any)[property] = value
+    })
+
+    this.log(
+      [`${this.namespace} transaction reverted from: ${this.uuid}`, transaction.errors],
+      'warning'
+    )
   }
 
   /**
    * Event Dispatcher Interface to call Event handlers, defined outside the
    * current instance context.
    */
-  public hook(name: string, options?: HookOptions) {
-    const { context, data } = options || {}
+  public hook<K extends EnlightenmentEventName>(
+    name: K,
+    options?: HookOptions<EnlightenmentEventMap[K]>
+  ) {
+    const { cancelable, context, data } = options || {}
 
     if (!name) {
       this.log('Unable to use undefined hook', 'error')
@@ -715,6 +1107,7 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
 
     const event = new CustomEvent(name, {
       bubbles,
+      cancelable: cancelable ? true : false,
       detail: data || {}
     })
 
@@ -726,4 +1119,122 @@ export class EnlightenmentKernel extends EnlightenmentMixins {
 
     return this.dispatchEvent(event)
   }
+
+  /**
+   * Type-checks the name and detail payload of the declared hooks within the
+   * EnlightenmentEventMap while the native Events are handled as usual.
+   *
+   * @param type The hook or Event type to listen to.
+   * @param listener The listener to assign.
+   * @param options The optional Event listener options.
+   */
+  public addEventListener<K extends EnlightenmentEventName>(
+    type: K,
+    listener: (this: HTMLElement, event: EnlightenmentEvent<K>) => any,
+    options?: boolean | AddEventListenerOptions
+  ): void
+  public addEventListener<K extends keyof EnlightenmentNativeEventMap>(
+    type: K,
+    listener: (this: HTMLElement, event: EnlightenmentNativeEventMap[K]) => any,
+    options?: boolean | AddEventListenerOptions
+  ): void
+  public addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void
+  public addEventListener(type: string, listener: any, options?: any) {
+    super.addEventListener(type, listener, options)
+  }
+
+  /**
+   * Removes the assigned listener of the declared hook or native Event.
+   *
+   * @param type The hook or Event type of the listener.
+   * @param listener The listener to remove.
+   * @param options The optional Event listener options.
+   */
+  public removeEventListener<K extends EnlightenmentEventName>(
+    type: K,
+    listener: (this: HTMLElement, event: EnlightenmentEvent<K>) => any,
+    options?: boolean | EventListenerOptions
+  ): void
+  public removeEventListener<K extends keyof EnlightenmentNativeEventMap>(
+    type: K,
+    listener: (this: HTMLElement, event: EnlightenmentNativeEventMap[K]) => any,
+    options?: boolean | EventListenerOptions
+  ): void
+  public removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void
+  public removeEventListener(type: string, listener: any, options?: any) {
+    super.removeEventListener(type, listener, options)
+  }
+
+  /**
+   * Resolves with the next dispatched hook of the defined name that matches
+   * the optional predicate. The promise is rejected when the optional
+   * timeout has been reached before the hook was dispatched.
+   *
+   * @param name Wait for the defined hook name.
+   * @param predicate Only resolve when the dispatched hook passes the
+   * defined predicate.
+   * @param timeout Reject after the defined timeout in MS.
+   * @param context Listen to the hooks that are dispatched on the defined
+   * context instead.
+   */
+  public waitFor<K extends EnlightenmentEventName>(
+    name: K,
+    predicate?: (event: EnlightenmentEvent<K>) => boolean,
+    timeout?: number,
+    context?: Element
+  ) {
+    return new Promise<EnlightenmentEvent<K>>((resolve, reject) => {
+      if (!name) {
+        reject(new Error('Unable to wait for undefined hook'))
+
+        return
+      }
+
+      const target = context || this
+      let tid: ReturnType<typeof setTimeout> | undefined = undefined
+
+      const handler = (event: Event) => {
+        if (typeof predicate === 'function' && !predicate(event as EnlightenmentEvent<K>)) {
+          return
+        }
+
+        target.removeEventListener(name, handler)
+        tid !== undefined && clearTimeout(tid)
+
+        resolve(event as EnlightenmentEvent<K>)
+      }
+
+      target.addEventListener(name, handler)
+
+      if (timeout && timeout > 0) {
+        tid = setTimeout(() => {
+          target.removeEventListener(name, handler)
+
+          reject(new Error(`${this.uuid} timeout reached while waiting for: ${name}`))
+        }, timeout)
+      }
+    })
+  }
+
+  /**
+   * Resolves with the Component when the ready state has been reached or
+   * directly when the Component is already ready.
+   *
+   * @param timeout Reject after the defined timeout in MS.
+   */
+  public whenReady(timeout?: number) {
+    if (this.domReady) {
+      return Promise.resolve(this)
+    }
+
+    return this.waitFor('ready', () => this.domReady, timeout).then(() => this)
+  }
 }
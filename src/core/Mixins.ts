@@ -77,19 +77,37 @@ export class EnlightenmentMixins extends LitElement {
    *
    * @param value Returns an Element Collection from the defined string value.
    */
-  static convertToSelector(value: string | null) {
+  static convertToSelector(value: string | null, root?: Document | ShadowRoot) {
     if (typeof value !== 'string') {
       return []
     }
 
-    return String(value)
+    const context = root || document
+    const result: HTMLElement[] = []
+
+    String(value)
       .split(',')
-      .map((str) => {
-        const selector = str.split(' ').join('')
+      .map((str) => str.trim())
+      .filter((selector) => selector)
+      .forEach((selector) => {
+        let elements: HTMLElement[] = []
+
+        try {
+          elements = Array.from(context.querySelectorAll(selector)) as HTMLElement[]
+        } catch (exception) {
+          // Use the selector as id value instead.
+        }
+
+        if (!elements.length && context.getElementById) {
+          const element = context.getElementById(selector)
 
-        return document.getElementById(selector) || document.querySelector(selector)
+          element && elements.push(element)
+        }
+
+        elements.forEach((element) => !result.includes(element) && result.push(element))
       })
-      .filter((e) => e !== null && e !== undefined) as HTMLElement[]
+
+    return result
   }
 
   /**
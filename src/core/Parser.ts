@@ -1,5 +1,6 @@
 import {
   EnlightenmentDataEntry,
+  EnlightenmentHandleExpression,
   EnlightenmentJSONResponse,
   EnlightenmentJSONResponseArray,
   EnlightenmentJSONResponseObject,
@@ -10,6 +11,135 @@ import {
 import { EnlightenmentKernel } from './Kernel'
 
 export class EnlightenmentParser extends EnlightenmentKernel {
+  /**
+   * Placeholder for the [handle] argument that is replaced with the actual
+   * Event: handle="click:select($event)"
+   */
+  static HANDLE_EVENT = Symbol('$event')
+
+  /**
+   * Defines the accepted modifiers of a [handle] expression.
+   */
+  static handleModifiers = ['capture', 'once', 'passive', 'prevent', 'self', 'stop']
+
+  /**
+   * Defines the Event types that accept the key filter modifiers.
+   */
+  static handleKeyEvents = ['keydown', 'keypress', 'keyup']
+
+  /**
+   * Defines the key filter aliases for the KeyboardEvent key values.
+   */
+  static handleKeys: { [alias: string]: string } = {
+    del: 'delete',
+    down: 'arrowdown',
+    esc: 'escape',
+    left: 'arrowleft',
+    right: 'arrowright',
+    space: ' ',
+    up: 'arrowup'
+  }
+
+  /**
+   * Parses the defined [handle] attribute value into the actual expressions
+   * and returns the reason for each invalid expression. Multiple expressions
+   * are separated with a comma or semicolon:
+   *
+   * handle="focus:start, click.prevent:select('a', 2), keydown.esc:close()"
+   *
+   * @param value The [handle] attribute value to parse.
+   */
+  static parseHandle(value?: string | null) {
+    const bindings: EnlightenmentHandleExpression[] = []
+    const errors: string[] = []
+
+    EnlightenmentParser.splitExpression(value || '', [',', ';']).forEach((expression) => {
+      if (!expression) {
+        return
+      }
+
+      const match = expression.match(
+        /^(?:([\w-]*)((?:\.[\w-]+)*)\s*:)?\s*([A-Za-z_$][\w$]*)\s*(?:\(([\s\S]*)\))?$/
+      )
+
+      if (!match) {
+        errors.push(`Unable to parse expression: ${expression}`)
+
+        return
+      }
+
+      const [_, t, m, method, a] = match
+      const type = t || 'click'
+      const modifiers: string[] = []
+      const keys: string[] = []
+      const args: any[] = []
+      let isValid = true
+
+      ;(m || '')
+        .split('.')
+        .filter((modifier) => modifier)
+        .forEach((modifier) => {
+          const name = modifier.toLowerCase()
+
+          if (EnlightenmentParser.handleModifiers.includes(name)) {
+            modifiers.push(name)
+          } else if (EnlightenmentParser.handleKeyEvents.includes(type)) {
+            keys.push(EnlightenmentParser.handleKeys[name] || name)
+          } else {
+            errors.push(`Unknown modifier "${modifier}" for ${type} within: ${expression}`)
+            isValid = false
+          }
+        })
+
+      EnlightenmentParser.splitExpression(a || '', [',']).forEach((argument) => {
+        if (!argument) {
+          return
+        }
+
+        const [valid, result] = EnlightenmentParser.parseHandleArgument(argument)
+
+        if (!valid) {
+          errors.push(`Unsupported argument ${argument} within: ${expression}`)
+          isValid = false
+        }
+
+        args.push(result)
+      })
+
+      isValid && bindings.push({ args, keys, method, modifiers, type })
+    })
+
+    return { bindings, errors }
+  }
+
+  /**
+   * Returns the literal value of a single [handle] argument: quoted strings,
+   * numbers, booleans, null, undefined and the $event placeholder.
+   *
+   * @param value The argument to parse.
+   */
+  static parseHandleArgument(value: string): [boolean, any] {
+    const quote = value[0]
+
+    if (['"', "'"].includes(quote) && value.length > 1 && value.endsWith(quote)) {
+      return [true, value.slice(1, -1).replace(new RegExp(`\\\\${quote}`, 'g'), quote)]
+    }
+
+    if (!isNaN(Number(value))) {
+      return [true, Number(value)]
+    }
+
+    const literals: { [key: string]: any } = {
+      $event: EnlightenmentParser.HANDLE_EVENT,
+      false: false,
+      null: null,
+      true: true,
+      undefined: undefined
+    }
+
+    return Object.keys(literals).includes(value) ? [true, literals[value]] : [false, value]
+  }
+
   /**
    * Parses the defined string value as JSON and return the output within an
    * Array regardless of the result.
@@ -154,6 +284,47 @@ export class EnlightenmentParser extends EnlightenmentKernel {
     return html
   }
 
+  /**
+   * Splits the defined value with the defined separators outside any quoted
+   * value or parentheses and returns the trimmed values.
+   *
+   * @param value The value to split.
+   * @param separators Split the value with the defined characters.
+   */
+  static splitExpression(value: string, separators: string[]) {
+    const result: string[] = []
+    let depth = 0
+    let quote = ''
+    let current = ''
+
+    for (let i = 0; i < value.length; i += 1) {
+      const char = value[i]
+
+      if (quote) {
+        if (char === quote && value[i - 1] !== '\\') {
+          quote = ''
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === '(') {
+        depth += 1
+      } else if (char === ')') {
+        depth = Math.max(depth - 1, 0)
+      } else if (!depth && separators.includes(char)) {
+        result.push(current.trim())
+        current = ''
+
+        continue
+      }
+
+      current += char
+    }
+
+    result.push(current.trim())
+
+    return result
+  }
+
   /**
    * Removes any whitespace from the defined string value.
    *
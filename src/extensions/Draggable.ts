@@ -2,22 +2,63 @@ import {
   createRef,
   customElement,
   Enlightenment,
+  EnlightenmentStorage,
+  EnlightenmentWindowManager,
   eventOptions,
   html,
+  nothing,
   property,
   ref
 } from '../Enlightenment'
 
 import {
+  DraggableAxisType,
   DraggablePositionType,
+  EnlightenmentContext2DRect,
   EnlightenmentDOMResizeOptions,
   EnlightenmentDraggableDefaults,
+  EnlightenmentDraggableEdge,
+  EnlightenmentDraggableEdgeLayout,
+  EnlightenmentDraggableEdgeRect,
+  EnlightenmentDraggableGuide,
+  EnlightenmentDraggableHistory,
+  EnlightenmentDraggablePersistEntry,
+  EnlightenmentDraggableSortData,
+  EnlightenmentEventName,
   EnlightenmentInputControllerPointerData,
-  EnlightenmentInteractionData
+  EnlightenmentInteractionData,
+  EnlightenmentSchema,
+  EnlightenmentStorageAdapter,
+  EnlightenmentStorageType,
+  EnlightenmentViewport,
+  EnlightenmentWindowRect
 } from '../_types/main'
 
 import styles from './Draggable.scss'
 
+/**
+ * Declares the hooks that are dispatched by the Draggable Element.
+ */
+declare module '../_types/main' {
+  interface EnlightenmentEventMap {
+    dragend: {}
+    dragenter: { destination: HTMLElement; item: HTMLElement; source: HTMLElement }
+    dragleave: { destination: HTMLElement; item: HTMLElement; source: HTMLElement }
+    dragstart: {}
+    drop: { destination: HTMLElement; index: number; item: HTMLElement; source: HTMLElement }
+    guides: { guides: EnlightenmentDraggableGuide[] }
+    history: {
+      action: string
+      entry: EnlightenmentDraggablePersistEntry
+      index: number
+      length: number
+    }
+    snap: EnlightenmentDraggableEdgeRect & { edge: EnlightenmentDraggableEdge }
+    'threshold-x': { direction: number; distance: number; release?: boolean; threshold: number }
+    'threshold-y': { direction: number; distance: number; release?: boolean; threshold: number }
+  }
+}
+
 /**
  * The Draggable Element interface enables the Drag interaction on the defined
  * target selector, host Component or initial slotted Element.
@@ -41,6 +82,59 @@ import styles from './Draggable.scss'
  * used as resize handle. The center pivot (5) ignores the resize interaction
  * and will use the drag behaviour.
  *
+ * The final position and size of the interaction target can be stored within
+ * the optional [persist] Storage key. The stored geometry will be restored
+ * within the current viewport after the initial render:
+ *
+ * <... persist="my-panel" persist-storage="session"></...>
+ *
+ * Additional Pointers will dispatch the pinch & rotate hooks during the
+ * interaction. The pinch gesture will resize the context around the center
+ * pivot when the [pinch] property is defined.
+ *
+ * The context is resized to the matching rectangle when the Drag interaction
+ * ends within one of the viewport edges, with the optional [edge-corners],
+ * [edge-zone] and custom edgeLayout properties. The cancelable snap hook is
+ * dispatched before the actual resize.
+ *
+ * The slotted Elements can be reordered with the Pointer or keyboard while
+ * the [sortable] property is defined. The dragged item can also be dropped
+ * within any Element with the same [drop-zone] value and dispatches the
+ * dragenter, dragleave and cancelable drop hooks with the source and
+ * destination.
+ *
+ * Each completed geometry change is recorded within the history of the
+ * interaction target and can be restored with the public undo() and redo()
+ * methods, or with Control + Z and Control + Shift + Z while the Component is
+ * the currentElement.
+ *
+ * The threshold-x and threshold-y hooks are dispatched when the interaction
+ * exceeds the optional [threshold] values, or when the interaction is released
+ * with [threshold-release]. The [threshold-revert] property restores the
+ * initial position when the threshold is not reached.
+ *
+ * The optional [inertia] property continues the movement with the release
+ * velocity after the Drag interaction has ended. The velocity decreases with
+ * the defined [friction] and the dragend hook is dispatched once the movement
+ * has settled.
+ *
+ * The resized context is limited by the optional [min-width], [max-width],
+ * [min-height] and [max-height] properties and the computed CSS min and max
+ * values. The [aspect-ratio] property locks the ratio of the resized context.
+ *
+ * The interaction is constrained within the window by default or within the
+ * Element from the optional [bounds] property: parent, host or any selector.
+ *
+ * The position and size can be quantised with the optional [grid] property
+ * and the context can snap to the edges of other Draggable targets within the
+ * [snap-tolerance] distance. The guides hook exposes the alignment guides of
+ * the snapped position.
+ *
+ * The interaction is also available for keyboard devices: the arrow keys will
+ * move the context for the center pivot or resize the context for the other
+ * pivots within the defined [step] value. The step value is multiplied while
+ * the Shift key is pressed.
+ *
  * There are 4 position variants that will define the overall drag behavior:
  * - Inline: Respects the initial inline position and use the transform properties
  * only. The initial Web Component will be used as draggable context.
@@ -51,6 +145,10 @@ import styles from './Draggable.scss'
  * - Fixed: Apply a fixed position for the draggable context and ignore any
  * viewport bounds while the drag operation is active.
  *
+ * The absolute and fixed interaction targets are tracked by the shared
+ * EnlightenmentWindowManager that raises the target to the top of the stack
+ * for each Pointer or Keyboard interaction.
+ *
  * @TODO
  *  - Implement Axis resize with optional key/method to resize in both directions
  */
@@ -58,11 +156,151 @@ import styles from './Draggable.scss'
 export class EnlightenmentDraggable extends Enlightenment {
   static styles = [styles]
 
+  /**
+   * Shared window manager that defines the stacking order of the absolute and
+   * fixed positioned interaction targets outside any scope.
+   * @see useWindowManager()
+   */
+  static windowManager = new EnlightenmentWindowManager(undefined, Enlightenment.logger)
+
   static defaults: EnlightenmentDraggableDefaults = {
     ...Enlightenment.defaults,
     Draggable: {
-      position: ['inline', 'static', 'absolute', 'fixed']
+      position: ['inline', 'static', 'absolute', 'fixed'],
+      axisLock: 8,
+      friction: 0.95,
+      historyLimit: 50,
+      keyboardDelay: 400,
+      minVelocity: 0.02,
+      placeholder: 'draggable-placeholder',
+      step: 10,
+      stepMultiplier: 5
+    }
+  }
+
+  /**
+   * Rejects the invalid interaction values from the converted attributes and
+   * commits.
+   */
+  static schema: EnlightenmentSchema = {
+    ...Enlightenment.schema,
+    friction: { type: 'number', min: 0, max: 1 },
+    historyLimit: { type: 'number', min: 1 },
+    position: { enum: EnlightenmentDraggable.defaults.Draggable.position },
+    snapTolerance: { type: 'number', min: 0 },
+    step: { type: 'number', min: 1 }
+  }
+
+  /**
+   * Defines the default rectangle for each viewport edge and corner, the top
+   * edge maximises the context while the other edges dock the context to the
+   * matching half of the viewport. The corners are only used while the
+   * [edge-corners] property is defined.
+   */
+  static edgeLayout: EnlightenmentDraggableEdgeLayout = {
+    top: ({ height, left, top, width }) => ({ x: left, y: top, width, height }),
+    right: ({ height, left, top, width }) => ({
+      x: left + Math.floor(width / 2),
+      y: top,
+      width: Math.ceil(width / 2),
+      height
+    }),
+    bottom: ({ height, left, top, width }) => ({
+      x: left,
+      y: top + Math.floor(height / 2),
+      width,
+      height: Math.ceil(height / 2)
+    }),
+    left: ({ height, left, top, width }) => ({
+      x: left,
+      y: top,
+      width: Math.ceil(width / 2),
+      height
+    }),
+    'top-left': ({ height, left, top, width }) => ({
+      x: left,
+      y: top,
+      width: Math.ceil(width / 2),
+      height: Math.ceil(height / 2)
+    }),
+    'top-right': ({ height, left, top, width }) => ({
+      x: left + Math.floor(width / 2),
+      y: top,
+      width: Math.ceil(width / 2),
+      height: Math.ceil(height / 2)
+    }),
+    'bottom-left': ({ height, left, top, width }) => ({
+      x: left,
+      y: top + Math.floor(height / 2),
+      width: Math.ceil(width / 2),
+      height: Math.ceil(height / 2)
+    }),
+    'bottom-right': ({ height, left, top, width }) => ({
+      x: left + Math.floor(width / 2),
+      y: top + Math.floor(height / 2),
+      width: Math.ceil(width / 2),
+      height: Math.ceil(height / 2)
+    })
+  }
+
+  /**
+   * Contains the recorded geometry history for each interaction target, the
+   * history is shared between the Draggable elements of the same target.
+   */
+  static history: WeakMap<HTMLElement, EnlightenmentDraggableHistory> = new WeakMap()
+
+  /**
+   * Converts the defined value to a valid aspect ratio:
+   *  - 1.5 = 1.5
+   *  - 16/9 = 1.777...
+   *  - 4:3 = 1.333...
+   *
+   * @param value The value to convert.
+   */
+  static isAspectRatio(value: string | null) {
+    if (!value) {
+      return
+    }
+
+    const [width, height] = value.split(/[/:]/).map((v) => parseFloat(v))
+    const ratio = height ? width / height : width
+
+    return ratio > 0 && isFinite(ratio) ? ratio : undefined
+  }
+
+  /**
+   * Checks if the defined Event target accepts text input and should keep
+   * the default behavior of the arrow keys.
+   *
+   * @param target The Event target to validate.
+   */
+  static isEditable(target: any) {
+    if (!target || typeof target.tagName !== 'string') {
+      return false
+    }
+
+    return (
+      ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName.toUpperCase()) ||
+      target.isContentEditable === true
+    )
+  }
+
+  /**
+   * Converts the defined value to a valid X and Y grid size, the X value is
+   * used for both axis when the Y value is undefined:
+   *  - 8 = x 8 & y 8
+   *  - 8,16 = x 8 & y 16
+   *
+   * @param value The value to convert.
+   */
+  static isGrid(value: string | null) {
+    const [x, y] = EnlightenmentDraggable.isThreshold(value)
+
+    if (!x) {
+      return []
     }
+
+    return [x, y || x]
   }
 
   /**
@@ -80,13 +318,213 @@ export class EnlightenmentDraggable extends Enlightenment {
   }
 
   /**
-   * Limit the interaction context to the defined X or Y axis.
+   * Moves the index of the defined history to the previous or next entry and
+   * returns the new index, or undefined when no entry exists.
+   *
+   * @param history Move within the defined history.
+   * @param direction Use -1 for the previous or 1 for the next entry.
+   */
+  static moveHistory(history: EnlightenmentDraggableHistory, direction: number) {
+    const index = history.index + direction
+
+    if (!history.entries[index]) {
+      return
+    }
+
+    history.index = index
+
+    return index
+  }
+
+  /**
+   * Records the defined entry within the defined history and removes the
+   * undone and oldest entries that exceed the defined limit. Returns FALSE
+   * when the entry equals the current entry.
+   *
+   * @param history Record within the defined history.
+   * @param entry The geometry entry to record.
+   * @param limit The maximum amount of entries to keep.
+   */
+  static recordHistory(
+    history: EnlightenmentDraggableHistory,
+    entry: EnlightenmentDraggablePersistEntry,
+    limit?: number
+  ) {
+    if (Enlightenment.compareValue(history.entries[history.index], entry)) {
+      return false
+    }
+
+    history.entries = history.entries.slice(0, history.index + 1)
+    history.entries.push(entry)
+
+    const max = Math.max(limit || 0, 1)
+
+    if (history.entries.length > max) {
+      history.entries = history.entries.slice(history.entries.length - max)
+    }
+
+    history.index = history.entries.length - 1
+
+    return true
+  }
+
+  /**
+   * Lock the width and height of the interaction context to the defined ratio
+   * during the resize interaction.
+   */
+  @property({
+    attribute: 'aspect-ratio',
+    converter: (value) => EnlightenmentDraggable.isAspectRatio(value),
+    type: Number
+  })
+  aspectRatio?: number
+
+  /**
+   * Limit the interaction context to the defined X or Y axis. The axis is
+   * also locked to the dominant direction while the Shift key is pressed
+   * during the Drag interaction.
    */
   @property({
     converter: (value) => Enlightenment.filterProperty(value, ['x', 'y']),
     type: String
   })
-  axis?: number
+  axis?: DraggableAxisType
+
+  /**
+   * Constrains the move, resize, stretch and edge interactions within the
+   * defined Element instead of the window:
+   *  - parent = The parent Element of the interaction context.
+   *  - host = The host Component of the Draggable element.
+   *  - Any other value is used as selector.
+   */
+  @property({ type: String })
+  bounds?: string
+
+  /**
+   * Enables the quarter layout when the Drag interaction ends within one of
+   * the viewport corners.
+   */
+  @property({
+    attribute: 'edge-corners',
+    converter: Enlightenment.isBoolean,
+    type: Boolean
+  })
+  edgeCorners?: boolean
+
+  /**
+   * Optional layout that overrides the default rectangle of each edge or
+   * corner, the custom corners are also used without [edge-corners].
+   */
+  @property({ attribute: false, type: Object })
+  edgeLayout?: EnlightenmentDraggableEdgeLayout
+
+  /**
+   * Defines the size in pixels of the viewport edge area that will resize the
+   * context at the end of the Drag interaction.
+   */
+  @property({
+    attribute: 'edge-zone',
+    converter: Enlightenment.isInteger,
+    type: Number
+  })
+  edgeZone?: number
+
+  /**
+   * Quantise the position and size of the context to the defined grid size
+   * during the interaction:
+   *  - 8 = x 8 & y 8
+   *  - 8,16 = x 8 & y 16
+   */
+  @property({
+    converter: (value) => EnlightenmentDraggable.isGrid(value),
+    type: Array
+  })
+  grid: number[] = []
+
+  /**
+   * Defines the maximum amount of geometry changes that can be restored with
+   * the undo() and redo() methods.
+   */
+  @property({
+    attribute: 'history-limit',
+    converter: Enlightenment.isInteger,
+    type: Number
+  })
+  historyLimit = EnlightenmentDraggable.defaults.Draggable.historyLimit
+
+  /**
+   * Defines the drop zone group of the sortable items. The sortable items can
+   * be dropped within any Element with the same [drop-zone] Attribute value.
+   */
+  @property({
+    attribute: 'drop-zone',
+    type: String
+  })
+  dropZone?: string
+
+  /**
+   * Continues the movement of the interaction context with the release
+   * velocity after the Drag interaction has ended while TRUE.
+   */
+  @property({
+    converter: Enlightenment.isBoolean,
+    type: Boolean
+  })
+  inertia?: boolean
+
+  /**
+   * Defines the amount of velocity that is kept for each frame of the inertia
+   * movement, between 0 and 1.
+   */
+  @property({
+    converter: (value) => (value ? Math.min(Math.max(parseFloat(value) || 0, 0), 1) : undefined),
+    type: Number
+  })
+  friction = EnlightenmentDraggable.defaults.Draggable.friction
+
+  /**
+   * Limit the resized height of the interaction context. The computed CSS
+   * max-height value is used when it is more strict.
+   */
+  @property({
+    attribute: 'max-height',
+    converter: Enlightenment.isInteger,
+    type: Number
+  })
+  maxHeight?: number
+
+  /**
+   * Limit the resized width of the interaction context. The computed CSS
+   * max-width value is used when it is more strict.
+   */
+  @property({
+    attribute: 'max-width',
+    converter: Enlightenment.isInteger,
+    type: Number
+  })
+  maxWidth?: number
+
+  /**
+   * Prevents the interaction context from collapsing below the defined height.
+   * The computed CSS min-height value is used when it is more strict.
+   */
+  @property({
+    attribute: 'min-height',
+    converter: Enlightenment.isInteger,
+    type: Number
+  })
+  minHeight?: number
+
+  /**
+   * Prevents the interaction context from collapsing below the defined width.
+   * The computed CSS min-width value is used when it is more strict.
+   */
+  @property({
+    attribute: 'min-width',
+    converter: Enlightenment.isInteger,
+    type: Number
+  })
+  minWidth?: number
 
   /**
    * Defines the pivot position and interaction behavior for the component.
@@ -96,6 +534,27 @@ export class EnlightenmentDraggable extends Enlightenment {
   })
   pivot?: number
 
+  /**
+   * Resize the interaction context around the center pivot during a pinch
+   * gesture while TRUE.
+   */
+  @property({
+    converter: Enlightenment.isBoolean,
+    type: Boolean
+  })
+  pinch?: boolean
+
+  /**
+   * Enables the reordering of the slotted Elements while TRUE, instead of the
+   * move or resize interaction.
+   */
+  @property({
+    converter: Enlightenment.isBoolean,
+    reflect: true,
+    type: Boolean
+  })
+  sortable?: boolean
+
   /**
    * Apply the requested interaction on the actual component while TRUE.
    */
@@ -105,6 +564,47 @@ export class EnlightenmentDraggable extends Enlightenment {
   })
   static?: boolean
 
+  /**
+   * Stores the final geometry of the interaction target within the defined
+   * Storage key and restores it during the first update of the Component.
+   */
+  @property({
+    type: String
+  })
+  persist?: string
+
+  /**
+   * Use the defined Storage adapter alias for the [persist] property:
+   * local, session or memory.
+   */
+  @property({
+    attribute: 'persist-storage',
+    converter: (value) => Enlightenment.filterProperty(value, EnlightenmentStorage.adapters),
+    type: String
+  })
+  persistStorage: EnlightenmentStorageType = 'local'
+
+  /**
+   * Snaps the context to the edges of other Draggable targets within the
+   * defined distance in pixels.
+   */
+  @property({
+    attribute: 'snap-tolerance',
+    converter: Enlightenment.isInteger,
+    type: Number
+  })
+  snapTolerance?: number
+
+  /**
+   * Defines the amount of pixels to move or resize during a single keyboard
+   * interaction. The value is multiplied while the Shift key is pressed.
+   */
+  @property({
+    converter: Enlightenment.isInteger,
+    type: Number
+  })
+  step = EnlightenmentDraggable.defaults.Draggable.step
+
   /**
    * Will dispatch additional Events to the host component when the defined
    * X and/or Y delta values exceeds the optional threshold values that is
@@ -118,6 +618,28 @@ export class EnlightenmentDraggable extends Enlightenment {
   })
   threshold: number[] = []
 
+  /**
+   * Dispatches the threshold Events when the interaction is released instead
+   * of during the interaction, like a swipe to dismiss.
+   */
+  @property({
+    attribute: 'threshold-release',
+    converter: Enlightenment.isBoolean,
+    type: Boolean
+  })
+  thresholdRelease?: boolean
+
+  /**
+   * Restores the initial position and size of the interaction context when
+   * the interaction is released without reaching the defined threshold.
+   */
+  @property({
+    attribute: 'threshold-revert',
+    converter: Enlightenment.isBoolean,
+    type: Boolean
+  })
+  thresholdRevert?: boolean
+
   /**
    * Apply the requested interaction on the actual component while TRUE.
    */
@@ -136,6 +658,60 @@ export class EnlightenmentDraggable extends Enlightenment {
   })
   target?: string
 
+  /**
+   * Reference to the resolved Element from the [bounds] property.
+   */
+  boundsContext?: HTMLElement
+
+  /**
+   * Observes the size of the bounds Element to restore the context within the
+   * updated bounds.
+   */
+  boundsObserver?: ResizeObserver
+
+  /**
+   * Callback handler that completes the running inertia movement.
+   */
+  inertiaCallback?: Function
+
+  /**
+   * Reference to the Animation request of the running inertia movement.
+   */
+  inertiaRequest?: number
+
+  /**
+   * Contains the state of the active sortable interaction.
+   */
+  sortInteraction?: EnlightenmentDraggableSortData
+
+  /**
+   * Contains the alignment guides of the current snapped position.
+   */
+  guides: EnlightenmentDraggableGuide[] = []
+
+  /**
+   * Reference to the interaction target that is tracked by the shared window
+   * manager.
+   */
+  windowContext?: HTMLElement
+
+  /**
+   * Reference to the Storage instance that is used for the [persist] property.
+   */
+  storage?: InstanceType<typeof EnlightenmentStorage>
+
+  /**
+   * Assigns a custom Storage adapter that should be used for the [persist]
+   * property instead of the [persist-storage] alias.
+   *
+   * @param adapter The Storage alias or custom Storage adapter to use.
+   */
+  public assignStorage(adapter: EnlightenmentStorageType | EnlightenmentStorageAdapter) {
+    this.storage = new EnlightenmentStorage(Enlightenment.NAMESPACE, adapter)
+
+    return this.storage
+  }
+
   /**
    * Ignore the initial Context reference and us the custom target reference
    * instead. This should apply any DOM mutation on the selected target instead
@@ -156,19 +732,68 @@ export class EnlightenmentDraggable extends Enlightenment {
   }
 
   /**
-   * Ensure the Interaction target is defined within the current DOM.
+   * Restores the optional persisted geometry after the initial render and
+   * ensures the Component can receive keyboard focus.
+   *
+   * @param properties Defines the previous state of the updated properties.
    */
-  protected handleUpdate(name?: string) {
-    super.handleUpdate(name)
+  protected firstUpdated(properties: any) {
+    super.firstUpdated(properties)
+
+    // Ensure the keyboard interaction is possible without any focusable
+    // slotted Element.
+    if (
+      !this.hasAttribute('tabindex') &&
+      !this.querySelector('button, [href], input, select, textarea, [tabindex]')
+    ) {
+      this.setAttribute('tabindex', '0')
+    }
 
-    this.defineTarget()
+    this.sortable && this.updateSortItems()
+
+    this.throttle(this.restoreGeometry)
   }
 
   /**
-   * Removes the required interaction styles on the current target.
+   * Resolves the optional bounds Element when the [bounds] property has been
+   * updated.
+   *
+   * @param properties Defines the previous state of the updated properties.
    */
-  protected cleanupinteractionTarget() {
-    if (this.interactionTarget) {
+  protected updated(properties: any) {
+    super.updated(properties)
+
+    if (properties.has('bounds')) {
+      this.throttle(this.assignBounds)
+    }
+  }
+
+  /**
+   * Ensures the slotted Elements that are added afterwards can be sorted with
+   * the keyboard.
+   *
+   * @param event The slotchange Event of the rendered slot.
+   */
+  protected handleSlotChange(event: Event): void {
+    this.sortable && this.throttle(this.updateSortItems)
+
+    super.handleSlotChange(event)
+  }
+
+  /**
+   * Ensure the Interaction target is defined within the current DOM.
+   */
+  protected handleUpdate(name?: EnlightenmentEventName) {
+    super.handleUpdate(name)
+
+    this.defineTarget()
+  }
+
+  /**
+   * Removes the required interaction styles on the current target.
+   */
+  protected cleanupinteractionTarget() {
+    if (this.interactionTarget) {
       this.interactionTarget.style.userSelect = ''
       this.interactionTarget.style.overflow = ''
       this.interactionTarget.style.backfaceVisibility = ''
@@ -176,9 +801,15 @@ export class EnlightenmentDraggable extends Enlightenment {
   }
 
   protected defineTarget() {
+    // The sortable items are used as context instead.
+    if (this.sortable) {
+      return false
+    }
+
     const target = super.defineTarget(this.target)
 
     this.applyinteractionTargetStyles()
+    this.assignWindow()
 
     // Use the initial slotted element when the current Component is defined
     // with the [static] Attribute.
@@ -198,6 +829,13 @@ export class EnlightenmentDraggable extends Enlightenment {
    * @param properties Defines the required Pointer data to use.
    */
   protected handleDragUpdateCallback(deltaX: number, deltaY: number) {
+    // Ignore the movement while the pinch gesture resizes the context.
+    if (this.pinch && this.hasActiveGesture()) {
+      return super.handleDragUpdateCallback(deltaX, deltaY)
+    }
+
+    !this.thresholdRelease && this.handleThreshold(this.currentInteraction, deltaX, deltaY)
+
     if (this.currentInteraction.context) {
       if (this.isCenterPivot(this.currentInteraction.pivot)) {
         this.handleDragUpdateMove(this.currentInteraction.context, deltaX, deltaY)
@@ -214,6 +852,44 @@ export class EnlightenmentDraggable extends Enlightenment {
     return super.handleDragUpdateCallback(deltaX, deltaY)
   }
 
+  /**
+   * Resize the interaction context around the center pivot from the current
+   * pinch gesture scale while the [pinch] property is defined.
+   *
+   * @param scale The scale value between the initial and current distance.
+   * @param rotation The rotation in degrees since the initial gesture angle.
+   */
+  protected handleGestureUpdateCallback(scale: number, rotation: number) {
+    const { context, height, left, top, width } = this.currentInteraction
+
+    if (
+      this.pinch &&
+      context &&
+      width &&
+      height &&
+      ['absolute', 'fixed'].includes(this.position) &&
+      this.isCenterPivot(this.pivot)
+    ) {
+      const viewport = this.useBoundingRect()
+      const size = this.useConstrainedSize(
+        context,
+        Math.min(Math.round(width * scale), viewport.width),
+        Math.min(Math.round(height * scale), viewport.height)
+      )
+      const w = size.width || width
+      const h = size.height || height
+
+      this.resize(context, {
+        width: w,
+        height: h,
+        x: (left || 0) + (width - w) / 2,
+        y: (top || 0) + (height - h) / 2
+      })
+    }
+
+    return super.handleGestureUpdateCallback(scale, rotation)
+  }
+
   /**
    * Assign the required position styles for the actual target context to ensure
    * the interaction is displayed correctly.
@@ -272,7 +948,7 @@ export class EnlightenmentDraggable extends Enlightenment {
     const { edgeX, edgeY, pointerX, pointerY, previousPointerX, previousPointerY, velocityY } =
       this.currentInteraction || {}
 
-    const axis = String(this.axis).toLowerCase()
+    const axis = this.useAxis()
 
     if (axis === 'x') {
       x = (x || 0) + deltaX
@@ -285,6 +961,16 @@ export class EnlightenmentDraggable extends Enlightenment {
       y = (y || 0) + deltaY
     }
 
+    const [snapX, snapY] = this.useSnapPosition(context, x, y)
+
+    if (axis !== 'y') {
+      x = snapX
+    }
+
+    if (axis !== 'x') {
+      y = snapY
+    }
+
     const host = this.useHost(this)
     const stage = host && host.useContext && (host.useContext() as HTMLElement)
     const offsetX = this.static && stage ? stage.offsetLeft : 0
@@ -299,7 +985,18 @@ export class EnlightenmentDraggable extends Enlightenment {
       viewport.left = 0
     }
 
-    if (this.position !== 'fixed') {
+    if (this.boundsContext) {
+      // Constrain the context transformation within the bounds Element.
+      x = Math.max(
+        viewport.left - context.offsetLeft,
+        Math.min(x || 0, viewport.left + viewport.width - context.offsetLeft - context.offsetWidth)
+      )
+
+      y = Math.max(
+        viewport.top - context.offsetTop,
+        Math.min(y || 0, viewport.top + viewport.height - context.offsetTop - context.offsetHeight)
+      )
+    } else if (this.position !== 'fixed') {
       // Limit the context transformation within the visible viewport.
       if (bounds.left) {
         if (x + context.offsetLeft < viewport.left) {
@@ -364,9 +1061,10 @@ export class EnlightenmentDraggable extends Enlightenment {
 
     const { previousPointerX, previousPointerY, velocityX, velocityY } = this.currentInteraction
 
-    // Check the movement for both X & Y axis.
-    const resizeX = Enlightenment.pivots.x.includes(pivot)
-    const resizeY = Enlightenment.pivots.y.includes(pivot)
+    // Check the movement for both X & Y axis within the optional axis.
+    const axis = this.useAxis()
+    const resizeX = Enlightenment.pivots.x.includes(pivot) && axis !== 'y'
+    const resizeY = Enlightenment.pivots.y.includes(pivot) && axis !== 'x'
 
     // Use the left and top values for the optional transform position during
     // the resize interaction.
@@ -419,14 +1117,74 @@ export class EnlightenmentDraggable extends Enlightenment {
       translateY = y
     }
 
+    // Quantise the resized width and height to the optional grid and ensure
+    // the flipped position is moved with the snapped difference.
+    const [gridX, gridY] = this.grid
+
+    if (gridX) {
+      const snapped = this.useGridValue(width, gridX)
+
+      if (flipX) {
+        translateX = (translateX || 0) + width - snapped
+      }
+
+      width = snapped
+    }
+
+    if (gridY) {
+      const snapped = this.useGridValue(height, gridY)
+
+      if (flipY) {
+        translateY = (translateY || 0) + height - snapped
+      }
+
+      height = snapped
+    }
+
+    // Constrain the resized context within the bounds Element.
+    if (this.boundsContext) {
+      const offsetX = context.offsetLeft + (flipX ? translateX || 0 : initialTranslateX || 0)
+      const offsetY = context.offsetTop + (flipY ? translateY || 0 : initialTranslateY || 0)
+
+      if (flipX && offsetX < viewport.left) {
+        width -= viewport.left - offsetX
+        translateX = (translateX || 0) + viewport.left - offsetX
+      } else if (!flipX) {
+        width = Math.min(width, viewport.left + viewport.width - offsetX)
+      }
+
+      if (flipY && offsetY < viewport.top) {
+        height -= viewport.top - offsetY
+        translateY = (translateY || 0) + viewport.top - offsetY
+      } else if (!flipY) {
+        height = Math.min(height, viewport.top + viewport.height - offsetY)
+      }
+    }
+
+    // Apply the size constraints and ensure the flipped position is moved with
+    // the constrained difference.
+    const size = this.useConstrainedSize(context, width, height, pivot)
+
+    if (flipX && size.width !== undefined) {
+      translateX = (translateX || 0) + width - size.width
+    }
+
+    if (flipY && size.height !== undefined) {
+      translateY = (translateY || 0) + height - size.height
+    }
+
+    width = size.width !== undefined ? size.width : width
+    height = size.height !== undefined ? size.height : height
+
     // Prevent the width and/or height update when the Pointer has not moved
-    // between the current and previous frame.
-    if (!velocityX) {
+    // between the current and previous frame. Both values are used for the
+    // optional aspect ratio instead.
+    if (!velocityX && !this.aspectRatio) {
       width = undefined
       translateX = undefined
     }
 
-    if (!velocityY) {
+    if (!velocityY && !this.aspectRatio) {
       height = undefined
       translateY = undefined
     }
@@ -496,12 +1254,12 @@ export class EnlightenmentDraggable extends Enlightenment {
       this.transform(context, translateX, translateY)
     }
 
-    if (velocityX && !activeX && width && width !== context.offsetWidth) {
+    if (velocityX && !activeX && !this.aspectRatio && width && width !== context.offsetWidth) {
       reset = true
       // console.log('aa', width, context.offsetWidth)
     }
 
-    if (velocityY && !activeY && height && height !== context.offsetHeight) {
+    if (velocityY && !activeY && !this.aspectRatio && height && height !== context.offsetHeight) {
       // this.handleDragEnd()
       reset = true
     }
@@ -540,18 +1298,34 @@ export class EnlightenmentDraggable extends Enlightenment {
 
     let save = false
 
-    if (interaction.edgeY) {
-      x = 0
-      y = interaction.edgeY === -1 ? 0 : Math.floor(viewport.height / 2)
-      height = interaction.edgeY === -1 ? viewport.height : Math.ceil(viewport.height / 2)
-      width = viewport.width
+    // Ignore the edges outside the optional axis.
+    const axis = this.useAxis(interaction)
+    const edge = this.useEdge(
+      axis === 'y' ? 0 : interaction.edgeX,
+      axis === 'x' ? 0 : interaction.edgeY
+    )
+    const rect = edge ? this.useEdgeRect(edge, viewport) : undefined
+
+    // Ensure the snap hook can prevent the actual resize.
+    if (
+      edge &&
+      rect &&
+      this.hook(Enlightenment.defaults.customEvents.snap, {
+        cancelable: true,
+        context: this.interactionHost || this,
+        data: { edge, ...rect }
+      }) !== false
+    ) {
+      // Only resize the context within the optional axis.
+      if (axis !== 'y') {
+        x = rect.x
+        width = rect.width
+      }
 
-      save = true
-    } else if (interaction.edgeX) {
-      x = interaction.edgeX === -1 ? 0 : Math.floor(viewport.width / 2)
-      y = 0
-      width = Math.ceil(viewport.width / 2)
-      height = viewport.height
+      if (axis !== 'x') {
+        y = rect.y
+        height = rect.height
+      }
 
       save = true
     }
@@ -568,8 +1342,8 @@ export class EnlightenmentDraggable extends Enlightenment {
     }
 
     // Maintain the final position for a fixed Drag interaction that has not
-    // reached any viewport corner.
-    if (this.position === 'fixed' && !interaction.edgeX && !interaction.edgeY) {
+    // snapped to any viewport edge.
+    if (this.position === 'fixed' && !save) {
       const [translateX, translateY] = EnlightenmentDraggable.parseMatrix(
         interaction.context.style.transform
       )
@@ -598,100 +1372,338 @@ export class EnlightenmentDraggable extends Enlightenment {
    * handler was used in the context of a Mouse or Touch Event.
    */
   protected handleDragEnd(event?: MouseEvent | TouchEvent) {
+    // Use the velocity of the released Pointer before the interaction ends.
+    const [speedX, speedY] = this.useVelocity()
     const job = super.handleDragEnd(event)
     const interactionCache = this.currentInteraction
 
     job.then((result) => {
+      // Continue the current interaction when only a secondary Pointer of the
+      // active gesture was released.
+      if (!result && this.isGrabbed) {
+        return
+      }
+
       this.omitGlobalEvent('keydown', this.handleDragExit)
 
       if (!interactionCache.context) {
         return
       }
 
-      const [translateX, translateY] = Enlightenment.parseMatrixValue(
-        interactionCache.context.style.transform
+      // Complete the reverted interaction without the optional inertia.
+      if (this.handleThresholdEnd(interactionCache)) {
+        return this.handleDragComplete(interactionCache)
+      }
+
+      // Continue the movement with the optional inertia before the actual
+      // interaction is completed.
+      this.handleInertia(interactionCache.context, speedX, speedY, () =>
+        this.handleDragComplete(interactionCache)
       )
+    })
 
-      // Convert the Transform position values to the initial absolute or
-      // fixed values.
-      if (this.isCenterPivot(interactionCache.pivot)) {
-        if (this.position !== 'inline') {
-          //@TODO HANDLEDRAGEDGE
-          this.handleDragEdge(interactionCache)
-        } else if (['absolute', 'fixed'].includes(this.position)) {
-          // Ensure the final position is within the visible viewport
-          // regardless of the position type.
-          const { x, y } = this.restorePosition(interactionCache.context)
-
-          this.transform(interactionCache.context, x, y)
-        }
-      } else {
-        const x = interactionCache.context.offsetLeft + (translateX || 0)
-        const y = interactionCache.context.offsetTop + (translateY || 0)
+    return job
+  }
 
-        this.resize(interactionCache.context, {
-          x,
-          y
-        })
+  /**
+   * Dispatches the threshold-x and threshold-y hooks with the direction and
+   * distance when the defined delta values exceed the [threshold] values. The
+   * hook is dispatched once until the delta is within the threshold again.
+   *
+   * @param interaction Keep track of the reached threshold within the defined
+   * interaction.
+   * @param deltaX The horizontal distance since the initial Pointer position.
+   * @param deltaY The vertical distance since the initial Pointer position.
+   * @param release Dispatch the hooks for the released interaction.
+   */
+  protected handleThreshold(
+    interaction: EnlightenmentInteractionData,
+    deltaX: number,
+    deltaY: number,
+    release?: boolean
+  ) {
+    const [thresholdX, thresholdY] = this.useThreshold()
+
+    if (!thresholdX && !thresholdY) {
+      return false
+    }
 
-        if (
-          interactionCache &&
-          interactionCache.context &&
-          !this.isCenterPivot(interactionCache.pivot)
-        ) {
-          const host = this.useHost(this)
-          const stage = host && host.useContext && (host.useContext() as HTMLElement)
-          const bounds =
-            this.isOutsideViewport(interactionCache.context, this.static ? stage : undefined) || {}
-          const viewport = this.useBoundingRect(this.static ? stage : undefined)
-
-          // Ensure the context element cannot exceed outside the visible
-          // viewport after a resize operation has been triggered.
-          if (Enlightenment.pivots.left.includes(this.pivot || 0) && bounds.left) {
-            const maxWidth =
-              (interactionCache.width || interactionCache.context.offsetLeft) +
-              (interactionCache.left || 0)
-
-            this.resize(interactionCache.context, { x: 0, width: maxWidth })
-          } else if (Enlightenment.pivots.right.includes(this.pivot || 0) && bounds.right) {
-            const maxWidth = viewport.width - (interactionCache.left || 0)
-
-            this.resize(interactionCache.context, { width: maxWidth })
-          }
+    const reachedX = thresholdX ? Math.abs(deltaX) >= thresholdX : false
+    const reachedY = thresholdY ? Math.abs(deltaY) >= thresholdY : false
 
-          if (Enlightenment.pivots.top.includes(this.pivot || 0) && bounds.top) {
-            const maxHeight =
-              (interactionCache.height || interactionCache.context.offsetHeight) +
-              (interactionCache.top || 0)
+    const directionX = reachedX ? Math.sign(deltaX) : 0
+    const directionY = reachedY ? Math.sign(deltaY) : 0
 
-            this.resize(interactionCache.context, { y: 0, height: maxHeight })
-          } else if (Enlightenment.pivots.bottom.includes(this.pivot || 0) && bounds.bottom) {
-            const maxHeight = viewport.height - (interactionCache.top || 0)
+    if (directionX && (release || interaction.thresholdX !== directionX)) {
+      this.hook(Enlightenment.defaults.customEvents.thresholdX, {
+        context: this.interactionHost || this,
+        data: { direction: directionX, distance: deltaX, release, threshold: thresholdX }
+      })
+    }
 
-            this.resize(interactionCache.context, { height: maxHeight })
-          }
+    if (directionY && (release || interaction.thresholdY !== directionY)) {
+      this.hook(Enlightenment.defaults.customEvents.thresholdY, {
+        context: this.interactionHost || this,
+        data: { direction: directionY, distance: deltaY, release, threshold: thresholdY }
+      })
+    }
+
+    interaction.thresholdX = directionX
+    interaction.thresholdY = directionY
+
+    return reachedX || reachedY
+  }
+
+  /**
+   * Dispatches the optional threshold hooks for the released interaction and
+   * restores the initial position and size of the context when the threshold
+   * is not reached and [threshold-revert] is defined.
+   *
+   * @param interaction The data of the released interaction.
+   */
+  protected handleThresholdEnd(interaction: EnlightenmentInteractionData) {
+    const { context, pointerX, pointerY, previousPointerX, previousPointerY } = interaction
+
+    if (!context || !this.threshold.length) {
+      return false
+    }
+
+    const deltaX = (previousPointerX || 0) - (pointerX || 0)
+    const deltaY = (previousPointerY || 0) - (pointerY || 0)
+
+    const reached = this.thresholdRelease
+      ? this.handleThreshold(interaction, deltaX, deltaY, true)
+      : interaction.thresholdX || interaction.thresholdY
+
+    if (reached || !this.thresholdRevert) {
+      return false
+    }
+
+    // Prevent the reverted context from being resized to the viewport edge.
+    interaction.edgeX = 0
+    interaction.edgeY = 0
+
+    if (!this.isCenterPivot(interaction.pivot)) {
+      this.resize(context, {
+        height: interaction.height,
+        width: interaction.width,
+        x: interaction.left,
+        y: interaction.top
+      })
+    }
+
+    this.transform(context, interaction.x || 0, interaction.y || 0)
+
+    return true
+  }
+
+  /**
+   * Returns the X and Y threshold values, the X value is used for both axis
+   * when the Y value is undefined.
+   */
+  protected useThreshold() {
+    const [x, y] = this.threshold || []
+
+    return [x || 0, y !== undefined ? y : x || 0]
+  }
+
+  /**
+   * Continues the movement of the defined context with the release velocity
+   * and decreases the velocity with the defined [friction] for each frame. The
+   * movement stops at the viewport or bounds Element and the callback is
+   * called once the motion has settled.
+   *
+   * @param context Moves the defined context Element.
+   * @param speedX The horizontal release velocity in pixels per millisecond.
+   * @param speedY The vertical release velocity in pixels per millisecond.
+   * @param callback Callback handler to call when the movement has settled.
+   */
+  protected handleInertia(
+    context: HTMLElement,
+    speedX: number,
+    speedY: number,
+    callback: Function
+  ) {
+    const { friction, minVelocity } = EnlightenmentDraggable.defaults.Draggable
+
+    const axis = this.useAxis()
+
+    let velocityX = axis === 'y' ? 0 : speedX
+    let velocityY = axis === 'x' ? 0 : speedY
+
+    if (
+      !this.inertia ||
+      this.static ||
+      this.position === 'static' ||
+      !this.isCenterPivot(this.pivot) ||
+      (Math.abs(velocityX) < minVelocity && Math.abs(velocityY) < minVelocity)
+    ) {
+      return callback()
+    }
+
+    // The friction defines the velocity that is kept for a single frame at
+    // 60FPS.
+    const decay = this.friction !== undefined ? this.friction : friction
+    let previous = this.useTimestamp()
+
+    this.inertiaCallback = callback
+
+    const update = () => {
+      const timestamp = this.useTimestamp()
+      const duration = Math.min(timestamp - previous, 100)
+      const viewport = this.useBoundingRect()
+      const [translateX, translateY] = Enlightenment.parseMatrixValue(context.style.transform)
+
+      previous = timestamp
+
+      let x = (translateX || 0) + velocityX * duration
+      let y = (translateY || 0) + velocityY * duration
+
+      const minX = viewport.left - context.offsetLeft
+      const maxX = viewport.left + viewport.width - context.offsetLeft - context.offsetWidth
+      const minY = viewport.top - context.offsetTop
+      const maxY = viewport.top + viewport.height - context.offsetTop - context.offsetHeight
+
+      // Stop the movement for the axis that has reached the bounds.
+      if (x < minX || x > maxX) {
+        x = Math.max(minX, Math.min(x, maxX))
+        velocityX = 0
+      }
+
+      if (y < minY || y > maxY) {
+        y = Math.max(minY, Math.min(y, maxY))
+        velocityY = 0
+      }
+
+      this.transform(context, x, y)
+
+      velocityX *= Math.pow(decay, duration / (1000 / 60))
+      velocityY *= Math.pow(decay, duration / (1000 / 60))
+
+      if (Math.abs(velocityX) < minVelocity && Math.abs(velocityY) < minVelocity) {
+        return this.stopInertia()
+      }
+
+      this.inertiaRequest = this.useAnimationFrame(update)
+    }
+
+    this.inertiaRequest = this.useAnimationFrame(update)
+  }
+
+  /**
+   * Stops the running inertia movement and completes the ended interaction.
+   */
+  protected stopInertia() {
+    const callback = this.inertiaCallback
+
+    this.clearAnimationFrame(this.inertiaRequest)
+
+    this.inertiaCallback = undefined
+    this.inertiaRequest = undefined
+
+    callback && callback()
+  }
+
+  /**
+   * Completes the ended Drag interaction by converting the final position and
+   * size of the interaction context before the dragend hook is dispatched.
+   *
+   * @param interactionCache The data of the ended interaction.
+   */
+  protected handleDragComplete(interactionCache: EnlightenmentInteractionData) {
+    if (!interactionCache.context) {
+      return
+    }
+
+    const [translateX, translateY] = Enlightenment.parseMatrixValue(
+      interactionCache.context.style.transform
+    )
+
+    // Convert the Transform position values to the initial absolute or
+    // fixed values.
+    if (this.isCenterPivot(interactionCache.pivot)) {
+      if (this.position !== 'inline') {
+        //@TODO HANDLEDRAGEDGE
+        this.handleDragEdge(interactionCache)
+      } else if (['absolute', 'fixed'].includes(this.position)) {
+        // Ensure the final position is within the visible viewport
+        // regardless of the position type.
+        const { x, y } = this.restorePosition(interactionCache.context)
+
+        this.transform(interactionCache.context, x, y)
+      }
+    } else {
+      const x = interactionCache.context.offsetLeft + (translateX || 0)
+      const y = interactionCache.context.offsetTop + (translateY || 0)
+
+      this.resize(interactionCache.context, {
+        x,
+        y
+      })
+
+      if (
+        interactionCache &&
+        interactionCache.context &&
+        !this.isCenterPivot(interactionCache.pivot)
+      ) {
+        const host = this.useHost(this)
+        const stage = host && host.useContext && (host.useContext() as HTMLElement)
+        const bounds =
+          this.isOutsideViewport(interactionCache.context, this.static ? stage : undefined) || {}
+        const viewport = this.useBoundingRect(this.static ? stage : undefined)
+
+        // Ensure the context element cannot exceed outside the visible
+        // viewport after a resize operation has been triggered.
+        if (Enlightenment.pivots.left.includes(this.pivot || 0) && bounds.left) {
+          const maxWidth =
+            (interactionCache.width || interactionCache.context.offsetLeft) +
+            (interactionCache.left || 0)
+
+          this.resize(interactionCache.context, { x: viewport.left, width: maxWidth })
+        } else if (Enlightenment.pivots.right.includes(this.pivot || 0) && bounds.right) {
+          const maxWidth = viewport.left + viewport.width - (interactionCache.left || 0)
+
+          this.resize(interactionCache.context, { width: maxWidth })
         }
 
-        if (this.position === 'inline') {
-          interactionCache.context.style.top = ''
-          interactionCache.context.style.left = ''
-        } else {
-          interactionCache.context.style.transform = ''
+        if (Enlightenment.pivots.top.includes(this.pivot || 0) && bounds.top) {
+          const maxHeight =
+            (interactionCache.height || interactionCache.context.offsetHeight) +
+            (interactionCache.top || 0)
+
+          this.resize(interactionCache.context, { y: viewport.top, height: maxHeight })
+        } else if (Enlightenment.pivots.bottom.includes(this.pivot || 0) && bounds.bottom) {
+          const maxHeight = viewport.top + viewport.height - (interactionCache.top || 0)
+
+          this.resize(interactionCache.context, { height: maxHeight })
         }
       }
 
-      // Ensure the currentElement property is removed for this component
-      // instance.
-      this.handleCurrentElement(null)
+      if (this.position === 'inline') {
+        interactionCache.context.style.top = ''
+        interactionCache.context.style.left = ''
+      } else {
+        interactionCache.context.style.transform = ''
+      }
+    }
 
-      this.hook(Enlightenment.defaults.customEvents.dragEnd, {
-        context: this.interactionHost || this
-      })
+    // Reflect the final stretched state and store the final geometry.
+    this.updateStretched(interactionCache.context)
 
-      this.clearCurrentInteraction()
+    // Only record the geometry that was changed by the user interaction.
+    this.assignHistory(interactionCache.context)
+
+    this.updateGuides([])
+
+    // Ensure the currentElement property is removed for this component
+    // instance.
+    this.handleCurrentElement(null)
+
+    this.hook(Enlightenment.defaults.customEvents.dragEnd, {
+      context: this.interactionHost || this
     })
 
-    return job
+    this.clearCurrentInteraction()
   }
 
   /**
@@ -711,80 +1723,395 @@ export class EnlightenmentDraggable extends Enlightenment {
   }
 
   /**
-   * Use the rendered Slot Element for the actual Drag Event target value.
-   * @param event
+   * Initiates the keyboard interaction for the defined context and dispatch
+   * the same dragstart hook as a Pointer interaction.
+   *
+   * @param event The initial Keyboard Event.
    */
-  protected handleDragStart(event: MouseEvent | TouchEvent) {
+  protected handleKeyboardStart(event: KeyboardEvent) {
+    this.stopInertia()
+
     this.defineTarget()
 
-    // The interactionTarget could be undefined when the context element is
-    // disabled.
     if (!this.interactionTarget) {
-      return
+      return false
     }
 
-    const slot = this.useSlot()
+    this.useWindowManager().raise(this.interactionTarget)
+
+    this.assignHistory(this.interactionTarget)
+
+    const context = this.useContext() as HTMLElement
 
-    this.assignGlobalEvent('keydown', this.handleDragExit, { once: true })
+    if (!context) {
+      return false
+    }
+
+    const [translateX, translateY] = Enlightenment.parseMatrixValue(context.style.transform)
+
+    // Use the center of the context as virtual Pointer position.
+    const pointerX = context.offsetLeft + context.offsetWidth / 2
+    const pointerY = context.offsetTop + context.offsetHeight / 2
 
     this.hook(Enlightenment.defaults.customEvents.dragStart, {
       context: this.interactionHost || this
     })
 
-    super.handleDragStart(event, slot)
+    this.currentInteraction = {
+      ...this.currentInteraction,
+      context,
+      deltaX: 0,
+      deltaY: 0,
+      event,
+      height: context.offsetHeight,
+      host: this.interactionHost,
+      left: context.offsetLeft,
+      origin: event.target as HTMLElement,
+      pivot: this.pivot,
+      pointerX,
+      pointerY,
+      previousPointerX: pointerX,
+      previousPointerY: pointerY,
+      top: context.offsetTop,
+      updates: 0,
+      width: context.offsetWidth,
+      x: translateX,
+      y: translateY
+    }
+
+    this.isGrabbed = true
+
+    this.updateAttributeAlias('isGrabbed', Enlightenment.defaults.attr.grabbed, true)
+
+    if (this.isCenterPivot(this.pivot)) {
+      context.setAttribute(Enlightenment.defaults.attr.grabbed, 'true')
+    }
+
+    this.handleCurrentElement(this)
+
+    return true
   }
 
   /**
-   * Implements the Drag interaction callbacks.
+   * Moves or resizes the interaction context from the pressed arrow key.
    *
-   * @param event The inherited Mouse or Touch event.
+   * @param event The Keyboard Event that was dispatched from the Component or
+   * any slotted Element.
    */
-  protected handleDragUpdate(event: MouseEvent | TouchEvent) {
-    const update = super.handleDragUpdate(event)
+  protected handleKeyboardUpdate(event: KeyboardEvent) {
+    const { keyCode, shiftKey, target } = event || {}
 
-    if (!update) {
+    // Keep the caret movement within the slotted form Elements.
+    if (EnlightenmentDraggable.isEditable(target)) {
       return
     }
 
-    const { context, edgeX, edgeY, host } = this.currentInteraction || {}
+    if (this.sortable) {
+      return this.handleSortKeyboard(event)
+    }
 
-    if (host && edgeX) {
-      host.setAttribute(Enlightenment.defaults.attr.edgeX, String(edgeX))
-    } else if (host) {
-      host.removeAttribute(Enlightenment.defaults.attr.edgeX)
+    if (this.preventEvent || this.position === 'static') {
+      return
     }
 
-    if (edgeY && host) {
-      host.setAttribute(Enlightenment.defaults.attr.edgeY, String(edgeY))
-    } else if (host) {
-      host.removeAttribute(Enlightenment.defaults.attr.edgeY)
+    if (
+      this.isGrabbed &&
+      this.currentInteraction.event instanceof KeyboardEvent &&
+      Enlightenment.keyCodes.exit.includes(keyCode)
+    ) {
+      this.handleDragEnd()
+
+      return
     }
 
-    // Prevent content from being selecting while preforming the drag
-    // interaction.
-    if (this.interactionTarget && !this.interactionTarget.style.userSelect) {
-      this.interactionTarget.style.userSelect = 'none'
-      this.interactionTarget.style.overflow = 'hidden'
-      this.interactionTarget.style.backfaceVisibility = 'hidden'
+    if (!Enlightenment.keyCodes.arrows.includes(keyCode)) {
+      return
     }
 
-    return update
-  }
+    // Ignore the keyboard while a Pointer interaction is active.
+    if (this.isGrabbed && this.currentInteraction.event instanceof KeyboardEvent === false) {
+      return
+    }
 
-  /**
-   * Optional resize handler that should be be called for the stretched context
-   * elements.
-   */
-  protected handleRestretch() {
-    // Throttle the actual handler without any arguments to ensure it is called
-    // only once
-    this.throttle(this.handleGlobalResize, Enlightenment.RPS)
-  }
+    if (!this.isCenterPivot(this.pivot) && !['absolute', 'fixed'].includes(this.position)) {
+      return
+    }
 
-  /**
-   * Ensures the stretched Context elements are resized according to the new
-   * screen Size.
-   *
+    event.preventDefault && event.preventDefault()
+
+    // Continue the current interaction while the arrow keys are pressed again.
+    this.scheduler.cancel(this.handleKeyboardRelease)
+
+    if (!this.isGrabbed && !this.handleKeyboardStart(event)) {
+      return
+    }
+
+    const { context } = this.currentInteraction
+
+    if (!context) {
+      return
+    }
+
+    const step =
+      (this.step || EnlightenmentDraggable.defaults.Draggable.step) *
+      (shiftKey ? EnlightenmentDraggable.defaults.Draggable.stepMultiplier : 1)
+
+    const [left, up, right, down] = Enlightenment.keyCodes.arrows
+
+    let x = 0
+    let y = 0
+
+    if (keyCode === left) {
+      x = -step
+    } else if (keyCode === right) {
+      x = step
+    } else if (keyCode === up) {
+      y = -step
+    } else if (keyCode === down) {
+      y = step
+    }
+
+    this.currentInteraction.deltaX = (this.currentInteraction.deltaX || 0) + x
+    this.currentInteraction.deltaY = (this.currentInteraction.deltaY || 0) + y
+    this.currentInteraction.previousPointerX = (this.currentInteraction.previousPointerX || 0) + x
+    this.currentInteraction.previousPointerY = (this.currentInteraction.previousPointerY || 0) + y
+    this.currentInteraction.updates = (this.currentInteraction.updates || 0) + 1
+
+    if (this.isCenterPivot(this.pivot)) {
+      this.handleDragUpdateMove(
+        context,
+        this.currentInteraction.deltaX,
+        this.currentInteraction.deltaY
+      )
+    } else {
+      this.handleKeyboardResize(context, x, y, this.pivot)
+    }
+  }
+
+  /**
+   * Ends the current keyboard interaction after the keyboard delay when the
+   * arrow key is released, the consecutive key presses are handled as a
+   * single interaction.
+   *
+   * @param event The Keyboard Event that was dispatched from the Component or
+   * any slotted Element.
+   */
+  protected handleKeyboardEnd(event: KeyboardEvent) {
+    const { keyCode, target } = event || {}
+
+    if (this.sortable || !Enlightenment.keyCodes.arrows.includes(keyCode)) {
+      return
+    }
+
+    if (EnlightenmentDraggable.isEditable(target)) {
+      return
+    }
+
+    if (!this.isGrabbed || this.currentInteraction.event instanceof KeyboardEvent === false) {
+      return
+    }
+
+    return this.throttle(
+      this.handleKeyboardRelease,
+      EnlightenmentDraggable.defaults.Draggable.keyboardDelay
+    )
+  }
+
+  /**
+   * Ends the keyboard interaction that was not continued within the
+   * keyboard delay.
+   */
+  protected handleKeyboardRelease() {
+    if (!this.isGrabbed || this.currentInteraction.event instanceof KeyboardEvent === false) {
+      return
+    }
+
+    return this.handleDragEnd()
+  }
+
+  /**
+   * Resize the defined context from the defined pivot within the visible
+   * viewport.
+   *
+   * @param context Resize the defined context Element.
+   * @param x The horizontal resize value.
+   * @param y The vertical resize value.
+   * @param pivot Resize from the defined pivot: (1-9).
+   */
+  protected handleKeyboardResize(context: HTMLElement, x: number, y: number, pivot?: number) {
+    if (!context || !pivot) {
+      return
+    }
+
+    let left = context.offsetLeft
+    let top = context.offsetTop
+    let width = context.offsetWidth
+    let height = context.offsetHeight
+
+    const axis = this.useAxis()
+
+    if (x && Enlightenment.pivots.x.includes(pivot) && axis !== 'y') {
+      if (Enlightenment.pivots.left.includes(pivot)) {
+        left += x
+        width -= x
+      } else {
+        width += x
+      }
+    }
+
+    if (y && Enlightenment.pivots.y.includes(pivot) && axis !== 'x') {
+      if (Enlightenment.pivots.top.includes(pivot)) {
+        top += y
+        height -= y
+      } else {
+        height += y
+      }
+    }
+
+    const viewport = this.useBoundingRect()
+
+    // Ensure the resized context is not exceeding the visible viewport.
+    if (left < viewport.left) {
+      width -= viewport.left - left
+      left = viewport.left
+    }
+
+    if (top < viewport.top) {
+      height -= viewport.top - top
+      top = viewport.top
+    }
+
+    width = Math.max(0, Math.min(width, viewport.left + viewport.width - left))
+    height = Math.max(0, Math.min(height, viewport.top + viewport.height - top))
+
+    const size = this.useConstrainedSize(context, width, height, pivot)
+
+    // Maintain the opposite edge while the left or top pivot is constrained.
+    if (size.width !== undefined && Enlightenment.pivots.left.includes(pivot)) {
+      left += width - size.width
+    }
+
+    if (size.height !== undefined && Enlightenment.pivots.top.includes(pivot)) {
+      top += height - size.height
+    }
+
+    width = size.width !== undefined ? size.width : width
+    height = size.height !== undefined ? size.height : height
+
+    this.resize(context, { x: left, y: top, width, height })
+  }
+
+  /**
+   * Reflect the stretched state after the secondary interaction has stretched
+   * the current context.
+   *
+   * @param event The inherited Mouse or Touch event.
+   */
+  protected handleDragSecondary(event: MouseEvent | TouchEvent) {
+    super.handleDragSecondary(event)
+
+    if (['absolute', 'fixed'].includes(this.position)) {
+      this.updateStretched(this.currentInteraction.context)
+    }
+  }
+
+  /**
+   * Use the rendered Slot Element for the actual Drag Event target value.
+   * @param event
+   */
+  protected handleDragStart(event: MouseEvent | TouchEvent) {
+    if (this.sortable) {
+      return this.handleSortStart(event)
+    }
+
+    // Complete the previous interaction that is still moving.
+    this.stopInertia()
+
+    this.defineTarget()
+
+    // Ensure the initial geometry is recorded before the first interaction.
+    !this.isGrabbed && this.assignHistory(this.interactionTarget)
+
+    // The interactionTarget could be undefined when the context element is
+    // disabled.
+    if (!this.interactionTarget) {
+      return
+    }
+
+    this.useWindowManager().raise(this.interactionTarget)
+
+    const slot = this.useSlot()
+
+    // Additional Pointers are used as gesture for the active interaction.
+    if (!this.isGrabbed) {
+      this.assignGlobalEvent('keydown', this.handleDragExit, { once: true })
+
+      this.hook(Enlightenment.defaults.customEvents.dragStart, {
+        context: this.interactionHost || this
+      })
+    }
+
+    super.handleDragStart(event, slot)
+  }
+
+  /**
+   * Implements the Drag interaction callbacks.
+   *
+   * @param event The inherited Mouse or Touch event.
+   */
+  protected handleDragUpdate(event: MouseEvent | TouchEvent) {
+    const update = super.handleDragUpdate(event)
+
+    if (!update) {
+      return
+    }
+
+    this.updateAxisLock(event)
+
+    const { context, host } = this.currentInteraction || {}
+    const axis = this.useAxis()
+
+    // Ignore the edges outside the optional axis.
+    const edgeX = axis === 'y' ? 0 : this.currentInteraction.edgeX
+    const edgeY = axis === 'x' ? 0 : this.currentInteraction.edgeY
+
+    if (host && edgeX) {
+      host.setAttribute(Enlightenment.defaults.attr.edgeX, String(edgeX))
+    } else if (host) {
+      host.removeAttribute(Enlightenment.defaults.attr.edgeX)
+    }
+
+    if (edgeY && host) {
+      host.setAttribute(Enlightenment.defaults.attr.edgeY, String(edgeY))
+    } else if (host) {
+      host.removeAttribute(Enlightenment.defaults.attr.edgeY)
+    }
+
+    // Prevent content from being selecting while preforming the drag
+    // interaction.
+    if (this.interactionTarget && !this.interactionTarget.style.userSelect) {
+      this.interactionTarget.style.userSelect = 'none'
+      this.interactionTarget.style.overflow = 'hidden'
+      this.interactionTarget.style.backfaceVisibility = 'hidden'
+    }
+
+    return update
+  }
+
+  /**
+   * Optional resize handler that should be be called for the stretched context
+   * elements.
+   */
+  protected handleRestretch() {
+    // Throttle the actual handler without any arguments to ensure it is called
+    // only once
+    this.throttle(this.handleGlobalResize, Enlightenment.RPS)
+  }
+
+  /**
+   * Ensures the stretched Context elements are resized according to the new
+   * screen Size.
+   *
    * @param event Defines the original resize Event Interface.
    */
   protected handleGlobalResize(event: UIEvent) {
@@ -802,8 +2129,8 @@ export class EnlightenmentDraggable extends Enlightenment {
         ? bounds.height
         : undefined
 
-      const x = height ? 0 : undefined
-      const y = width ? 0 : undefined
+      const x = width ? bounds.left : undefined
+      const y = height ? bounds.top : undefined
 
       this.interactionTarget &&
         this.resize(this.interactionTarget, {
@@ -840,30 +2167,1312 @@ export class EnlightenmentDraggable extends Enlightenment {
         host.removeAttribute(name)
       }
     })
+
+    this.persistGeometry(context)
   }
 
   /**
-   * Render the initial HTML that will apply the interaction no the existing
-   * host component or defined target selector (closest or childElement).
+   * Writes the current geometry of the defined context to the assigned
+   * Storage when the [persist] property is defined.
    *
-   * Or render the intial Slot element that is the default context Element with
-   * a Draggable interaction if the [static] property is defined for the
-   * initial Component:
-   * <... static></...> Apply Drag interaction on the first slotted Element.
-   * <... static pivot=""></...> Apply pivot interaction on the first slotted
-   * Element.
+   * @param context Serialize the position and size of the defined Element.
    */
-  render() {
-    const useContent =
-      this.position !== 'static' && this.interactionTarget && this.pivot
-        ? false
-        : this.static || this.position === 'static'
+  protected persistGeometry(context?: HTMLElement) {
+    if (!this.persist || !context || this.position === 'static') {
+      return
+    }
+
+    const entry = this.useGeometry(context)
+
+    if (this.useStorage().write(this.persist, entry)) {
+      this.log([`Geometry persisted for ${this.persist}:`, entry], 'info')
+    }
+  }
+
+  /**
+   * Returns the current geometry of the defined context.
+   *
+   * @param context Use the position and size of the defined Element.
+   */
+  protected useGeometry(context: HTMLElement): EnlightenmentDraggablePersistEntry {
+    const [translateX, translateY] = Enlightenment.parseMatrixValue(context.style.transform)
+    const [stretchX, stretchY] = this.useStretched(context)
+
+    // Inline contexts are only transformed and should use the translate
+    // values instead.
+    const inline = this.position === 'inline'
+
+    return {
+      height: context.offsetHeight,
+      position: this.position,
+      stretchX,
+      stretchY,
+      width: context.offsetWidth,
+      x: (inline ? 0 : context.offsetLeft) + (translateX || 0),
+      y: (inline ? 0 : context.offsetTop) + (translateY || 0)
+    }
+  }
+
+  /**
+   * Dispatches the guides hook when the alignment guides have changed.
+   *
+   * @param guides The updated alignment guides.
+   */
+  protected updateGuides(guides: EnlightenmentDraggableGuide[]) {
+    if (
+      guides.length === this.guides.length &&
+      guides.every(
+        (guide, index) =>
+          guide.axis === this.guides[index].axis &&
+          guide.position === this.guides[index].position &&
+          guide.target === this.guides[index].target
+      )
+    ) {
+      return
+    }
+
+    this.guides = guides
+
+    this.hook(Enlightenment.defaults.customEvents.guides, {
+      context: this.interactionHost || this,
+      data: { guides }
+    })
+  }
+
+  /**
+   * Resolves the Element from the [bounds] property and observes the scroll
+   * and size of that Element to keep the context within the bounds.
+   */
+  protected assignBounds() {
+    this.defineTarget()
+
+    const context = this.useBoundsContext()
+
+    if (context === this.boundsContext) {
+      return
+    }
+
+    this.omitBounds()
+
+    if (!context) {
+      return
+    }
+
+    this.boundsContext = context
+
+    this.assignGlobalEvent('scroll', this.handleBoundsUpdate, { context })
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.boundsObserver = new ResizeObserver(() => this.handleBoundsUpdate())
+      this.boundsObserver.observe(context)
+    }
+
+    this.handleBoundsUpdate()
+  }
+
+  /**
+   * Callback handler that should restore the context within the scrolled or
+   * resized bounds Element.
+   */
+  protected handleBoundsUpdate() {
+    this.throttle(this.restoreBounds, Enlightenment.RPS)
+  }
+
+  /**
+   * Applies the geometry from the window manager within the size constraints
+   * and bounds, while the applied geometry is persisted and recorded as
+   * history entry.
+   *
+   * @param context Apply the geometry on the defined context Element.
+   * @param rect The geometry from the window manager.
+   */
+  public applyWindowRect(context: HTMLElement, rect: EnlightenmentWindowRect) {
+    if (!context || !rect) {
+      return
+    }
+
+    this.applyGeometry(context, rect)
+    this.updateStretched(context)
+    this.assignHistory(context)
+  }
+
+  /**
+   * Tracks the absolute or fixed positioned interaction target within the
+   * shared window manager.
+   */
+  protected assignWindow() {
+    const windowManager = this.useWindowManager()
+    const target = this.interactionTarget
+
+    if (this.windowContext && target && target !== this.windowContext) {
+      this.omitWindow()
+    }
+
+    if (!target || this.static || !['absolute', 'fixed'].includes(this.position)) {
+      return this.omitWindow()
+    }
+
+    this.windowContext = target
+
+    windowManager.assign(target, this, this.position === 'fixed' ? 'fixed' : 'absolute')
+  }
+
+  /**
+   * Stops tracking the previous interaction target within the shared window
+   * manager.
+   */
+  protected omitWindow() {
+    if (!this.windowContext) {
+      return
+    }
+
+    this.useWindowManager().omit(this.windowContext, this)
+
+    this.windowContext = undefined
+  }
+
+  /**
+   * Returns the window manager of the current Globals. The default Globals use
+   * the static window manager while each scope creates a separate window
+   * manager once.
+   */
+  protected useWindowManager() {
+    const { globals } = this
+
+    if (!globals.windowManager) {
+      globals.windowManager =
+        globals === Enlightenment.globals
+          ? EnlightenmentDraggable.windowManager
+          : new EnlightenmentWindowManager(undefined, Enlightenment.logger)
+    }
+
+    return globals.windowManager
+  }
+
+  /**
+   * Removes the observers from the previous bounds Element.
+   */
+  protected omitBounds() {
+    if (!this.boundsContext) {
+      return
+    }
+
+    this.omitGlobalEvent('scroll', this.handleBoundsUpdate)
+
+    this.boundsObserver && this.boundsObserver.disconnect()
+    this.boundsObserver = undefined
+    this.boundsContext = undefined
+  }
+
+  /**
+   * Ensures the interaction context fits within the current bounds Element.
+   */
+  protected restoreBounds() {
+    this.defineTarget()
+
+    const context = this.interactionTarget
+
+    if (!context || !this.boundsContext || this.isGrabbed || this.position === 'static') {
+      return
+    }
+
+    const viewport = this.useBoundingRect()
+
+    if (context.offsetWidth > viewport.width || context.offsetHeight > viewport.height) {
+      this.resize(context, {
+        width: Math.min(context.offsetWidth, viewport.width),
+        height: Math.min(context.offsetHeight, viewport.height)
+      })
+    }
+
+    const { x, y } = this.restorePosition(context)
+
+    if (this.position === 'inline') {
+      this.transform(context, x - context.offsetLeft, y - context.offsetTop)
+    } else {
+      this.resize(context, { x, y })
+      this.transform(context, 0, 0)
+    }
+
+    this.updateStretched(context)
+  }
+
+  /**
+   * Stretch the defined context Element within the optional axis.
+   *
+   * @param context Stretch the defined context Element.
+   * @param pivot Apply the stretch transformation from the defined pivot value.
+   * @param axis Only stretch the context within the defined axis.
+   */
+  protected stretch(context: HTMLElement, pivot?: number, axis?: DraggableAxisType) {
+    return super.stretch(context, pivot, axis || this.useAxis())
+  }
+
+  /**
+   * Locks the axis to the dominant direction of the current interaction while
+   * the Shift key is pressed, after the Pointer has moved the minimum
+   * distance.
+   *
+   * @param event The Pointer, Mouse or Touch event of the interaction.
+   */
+  protected updateAxisLock(event?: MouseEvent | TouchEvent) {
+    const interaction = this.currentInteraction
+
+    if (!event || !event.shiftKey) {
+      interaction.axisLock = undefined
+
+      return
+    }
+
+    if (interaction.axisLock) {
+      return
+    }
+
+    const deltaX = Math.abs((interaction.previousPointerX || 0) - (interaction.pointerX || 0))
+    const deltaY = Math.abs((interaction.previousPointerY || 0) - (interaction.pointerY || 0))
+
+    if (Math.max(deltaX, deltaY) < EnlightenmentDraggable.defaults.Draggable.axisLock) {
+      return
+    }
+
+    interaction.axisLock = deltaX >= deltaY ? 'x' : 'y'
+  }
+
+  /**
+   * Returns the defined [axis] or the dynamic axis lock of the interaction.
+   *
+   * @param interaction Use the axis lock from the defined interaction instead.
+   */
+  protected useAxis(interaction?: EnlightenmentInteractionData) {
+    return this.axis || (interaction || this.currentInteraction || {}).axisLock
+  }
+
+  /**
+   * Ensures the size constraints are applied for each resize, including the
+   * stretch, edge and post-drag resize. The aspect ratio is only applied
+   * within the user resize interactions to keep the stretched and maximised
+   * context within the viewport.
+   *
+   * @param context Resize the defined context Element.
+   * @param options Apply the defined resize options.
+   */
+  protected resize(context: HTMLElement, options: EnlightenmentDOMResizeOptions) {
+    if (!context || !options || (options.width === undefined && options.height === undefined)) {
+      return super.resize(context, options)
+    }
+
+    const { width, height } = this.useConstrainedSize(
+      context,
+      options.width,
+      options.height,
+      undefined,
+      false
+    )
+
+    return super.resize(context, { ...options, width, height })
+  }
+
+  /**
+   * Returns the Box model of the bounds Element relative to the offset parent
+   * of the interaction context, or the default viewport otherwise.
+   *
+   * @param context Returns the Box model from the defined viewport instead.
+   */
+  protected useBoundingRect(context?: EnlightenmentViewport): EnlightenmentContext2DRect {
+    const bounds = this.boundsContext
+    const target = this.interactionTarget
+
+    if (context || !bounds || !target) {
+      return super.useBoundingRect(context)
+    }
+
+    const rect = this.useClientRect(bounds)
+    const parent = this.position !== 'fixed' ? (target.offsetParent as HTMLElement) : undefined
+
+    if (!parent) {
+      return rect
+    }
+
+    // Convert the client position to the offset position of the context.
+    const origin = this.useClientRect(parent)
+
+    return {
+      ...rect,
+      left: rect.left - origin.left + parent.scrollLeft,
+      top: rect.top - origin.top + parent.scrollTop
+    }
+  }
+
+  /**
+   * Returns the constrained width and height for the defined context from the
+   * size constraints and optional aspect ratio.
+   *
+   * @param context Use the computed CSS constraints from the defined Element.
+   * @param width The proposed width value.
+   * @param height The proposed height value.
+   * @param pivot Use the height to compute the aspect ratio for the vertical
+   * pivots instead of the width.
+   * @param preserveRatio Apply the optional aspect ratio.
+   */
+  protected useConstrainedSize(
+    context: HTMLElement,
+    width?: number,
+    height?: number,
+    pivot?: number,
+    preserveRatio = true
+  ) {
+    const { maxHeight, maxWidth, minHeight, minWidth } = this.useSizeConstraints(context)
+
+    const clampWidth = (value: number) => Math.max(minWidth, Math.min(value, maxWidth))
+    const clampHeight = (value: number) => Math.max(minHeight, Math.min(value, maxHeight))
+
+    if (!preserveRatio || !this.aspectRatio || (width === undefined && height === undefined)) {
+      return {
+        width: width !== undefined ? clampWidth(width) : undefined,
+        height: height !== undefined ? clampHeight(height) : undefined
+      }
+    }
+
+    const ratio = this.aspectRatio
+
+    // Use the height as the initial value for the vertical pivots.
+    const vertical = pivot
+      ? !Enlightenment.pivots.x.includes(pivot) && Enlightenment.pivots.y.includes(pivot)
+      : width === undefined
+
+    let w = vertical
+      ? clampHeight(height !== undefined ? height : context.offsetHeight) * ratio
+      : clampWidth(width !== undefined ? width : context.offsetWidth)
+
+    // Ensure the ratio is maintained for the constrained height.
+    w = Math.max(minHeight * ratio, Math.min(clampWidth(w), maxHeight * ratio))
+
+    return { width: Math.round(w), height: Math.round(w / ratio) }
+  }
+
+  /**
+   * Returns the size constraints from the defined properties and the computed
+   * CSS min and max values of the defined context.
+   *
+   * @param context Use the computed styles from the defined Element.
+   */
+  protected useSizeConstraints(context: HTMLElement) {
+    const style = context && context.isConnected ? getComputedStyle(context) : undefined
+
+    // Only use the absolute pixel values from the computed style.
+    const usePixels = (value?: string) =>
+      value && value.endsWith('px') ? parseFloat(value) : undefined
+
+    // Use the most restrictive value of the defined constraints.
+    const useLargest = (...values: (number | undefined)[]) =>
+      Math.max(0, ...(values.filter((value) => value !== undefined) as number[]))
+    const useSmallest = (...values: (number | undefined)[]) =>
+      Math.min(Infinity, ...(values.filter((value) => value !== undefined) as number[]))
+
+    return {
+      maxHeight: useSmallest(this.maxHeight, usePixels(style?.maxHeight)),
+      maxWidth: useSmallest(this.maxWidth, usePixels(style?.maxWidth)),
+      minHeight: useLargest(this.minHeight, usePixels(style?.minHeight)),
+      minWidth: useLargest(this.minWidth, usePixels(style?.minWidth))
+    }
+  }
+
+  /**
+   * Returns the Element that is defined from the [bounds] property.
+   */
+  protected useBoundsContext() {
+    if (!this.bounds) {
+      return
+    }
+
+    if (this.bounds === 'host') {
+      return this.useHost(this) as HTMLElement | undefined
+    }
+
+    if (this.bounds === 'parent') {
+      const target = this.interactionTarget || this
+      const root = target.getRootNode() as ShadowRoot
+
+      return (target.parentElement || root.host) as HTMLElement | undefined
+    }
+
+    try {
+      return (document.querySelector(this.bounds) as HTMLElement) || undefined
+    } catch (exception) {
+      exception && this.log(exception, 'error')
+
+      return
+    }
+  }
+
+  /**
+   * Returns the visible client area of the defined Element without the
+   * borders and scrollbars.
+   *
+   * @param context Returns the client area of the defined Element.
+   */
+  protected useClientRect(context: HTMLElement): EnlightenmentContext2DRect {
+    const { left, top } = context.getBoundingClientRect()
+
+    return {
+      left: left + context.clientLeft,
+      top: top + context.clientTop,
+      width: context.clientWidth,
+      height: context.clientHeight
+    }
+  }
+
+  /**
+   * Returns the edge or corner name from the defined edge values. The corner
+   * is only returned when the [edge-corners] property is defined or when the
+   * custom layout defines the actual corner.
+   *
+   * @param edgeX The horizontal edge value: -1, 0 or 1.
+   * @param edgeY The vertical edge value: -1, 0 or 1.
+   */
+  protected useEdge(edgeX?: number, edgeY?: number) {
+    const vertical = edgeY ? (edgeY < 0 ? 'top' : 'bottom') : undefined
+    const horizontal = edgeX ? (edgeX < 0 ? 'left' : 'right') : undefined
+
+    if (vertical && horizontal) {
+      const corner: EnlightenmentDraggableEdge = `${vertical}-${horizontal}`
+
+      if (this.edgeCorners || (this.edgeLayout && this.edgeLayout[corner])) {
+        return corner
+      }
+    }
+
+    return (vertical || horizontal) as EnlightenmentDraggableEdge | undefined
+  }
+
+  /**
+   * Returns the rectangle for the defined edge from the custom or default
+   * edge layout.
+   *
+   * @param edge The edge or corner name to use.
+   * @param viewport The current viewport to compute the rectangle from.
+   */
+  protected useEdgeRect(
+    edge: EnlightenmentDraggableEdge,
+    viewport: EnlightenmentContext2DRect
+  ): EnlightenmentDraggableEdgeRect | undefined {
+    const layout = { ...EnlightenmentDraggable.edgeLayout, ...(this.edgeLayout || {}) }
+    const value = layout[edge]
+
+    if (!value) {
+      return
+    }
+
+    const rect = typeof value === 'function' ? value(viewport) : value
+
+    if (!rect || !rect.width || !rect.height) {
+      return
+    }
+
+    return rect
+  }
+
+  /**
+   * Use the optional [edge-zone] value instead of the default edge precision.
+   */
+  protected useEdgeZone() {
+    return this.edgeZone ? this.edgeZone : super.useEdgeZone()
+  }
+
+  /**
+   * Detects the edges from the client area of the bounds Element instead.
+   */
+  protected useEdgeViewport() {
+    return this.boundsContext ? this.useClientRect(this.boundsContext) : super.useEdgeViewport()
+  }
+
+  /**
+   * Returns the rounded value from the defined grid size.
+   *
+   * @param value The value to round.
+   * @param size The size of a single grid cell.
+   */
+  protected useGridValue(value: number, size?: number) {
+    if (!size) {
+      return value
+    }
+
+    return Math.round(value / size) * size
+  }
+
+  /**
+   * Returns the snapped translate values for the defined context. The context
+   * will snap to the edges of other Draggable targets within the defined
+   * [snap-tolerance] or will snap to the optional grid otherwise.
+   *
+   * @param context The context Element that is moved.
+   * @param x The proposed translateX value.
+   * @param y The proposed translateY value.
+   */
+  protected useSnapPosition(context: HTMLElement, x: number, y: number) {
+    const [gridX, gridY] = this.grid
+    const inline = this.position === 'inline'
+
+    // Quantise the final position instead of the transform value.
+    const offsetX = inline ? 0 : context.offsetLeft
+    const offsetY = inline ? 0 : context.offsetTop
+
+    let snapX = gridX ? this.useGridValue(offsetX + x, gridX) - offsetX : x
+    let snapY = gridY ? this.useGridValue(offsetY + y, gridY) - offsetY : y
+
+    if (!this.snapTolerance) {
+      return [snapX, snapY]
+    }
+
+    const [translateX, translateY] = Enlightenment.parseMatrixValue(context.style.transform)
+    const rect = context.getBoundingClientRect()
+
+    // Use the proposed client position of the context.
+    const left = rect.left + x - (translateX || 0)
+    const top = rect.top + y - (translateY || 0)
+    const right = left + rect.width
+    const bottom = top + rect.height
+
+    let distanceX = this.snapTolerance + 1
+    let distanceY = this.snapTolerance + 1
+
+    const guides: EnlightenmentDraggableGuide[] = []
+    let guideX: EnlightenmentDraggableGuide | undefined = undefined
+    let guideY: EnlightenmentDraggableGuide | undefined = undefined
+
+    this.globals.instances.forEach((instance) => {
+      if (instance === this || instance instanceof EnlightenmentDraggable === false) {
+        return
+      }
+
+      const target = instance.interactionTarget
+
+      if (!target || target === context || !target.isConnected) {
+        return
+      }
+
+      const bounds = target.getBoundingClientRect()
+
+      ;[bounds.left, bounds.right].forEach((edge) => {
+        ;[left, right].forEach((value) => {
+          const distance = Math.abs(edge - value)
+
+          if (distance <= (this.snapTolerance || 0) && distance < distanceX) {
+            distanceX = distance
+            snapX = x + edge - value
+            guideX = { axis: 'x', position: edge, target }
+          }
+        })
+      })
+      ;[bounds.top, bounds.bottom].forEach((edge) => {
+        ;[top, bottom].forEach((value) => {
+          const distance = Math.abs(edge - value)
+
+          if (distance <= (this.snapTolerance || 0) && distance < distanceY) {
+            distanceY = distance
+            snapY = y + edge - value
+            guideY = { axis: 'y', position: edge, target }
+          }
+        })
+      })
+    })
+
+    guideX && guides.push(guideX)
+    guideY && guides.push(guideY)
+
+    this.updateGuides(guides)
+
+    return [snapX, snapY]
+  }
+
+  /**
+   * Records the current geometry of the defined context as new history entry
+   * and removes the undone entries. The initial geometry is recorded first
+   * when the history is empty.
+   *
+   * @param context Record the geometry of the defined Element.
+   */
+  protected assignHistory(context?: HTMLElement) {
+    if (!context || this.position === 'static') {
+      return
+    }
+
+    const history = EnlightenmentDraggable.history.get(context) || { entries: [], index: -1 }
+
+    if (
+      !EnlightenmentDraggable.recordHistory(history, this.useGeometry(context), this.historyLimit)
+    ) {
+      return
+    }
+
+    EnlightenmentDraggable.history.set(context, history)
+
+    // The initial geometry is only recorded as the starting point.
+    history.entries.length > 1 && this.dispatchHistory('record', history)
+  }
+
+  /**
+   * Dispatches the history hook with the current history state.
+   *
+   * @param action The history action that has been applied.
+   * @param history The updated history of the interaction target.
+   */
+  protected dispatchHistory(action: string, history: EnlightenmentDraggableHistory) {
+    this.hook(Enlightenment.defaults.customEvents.history, {
+      context: this.interactionHost || this,
+      data: {
+        action,
+        entry: history.entries[history.index],
+        index: history.index,
+        length: history.entries.length
+      }
+    })
+  }
+
+  /**
+   * Undo or redo the geometry change with the keyboard while the Component
+   * or host Component is the currentElement:
+   *  - Control or Meta + Z = undo()
+   *  - Control or Meta + Shift + Z = redo()
+   *
+   * @param event The Keyboard event to validate.
+   */
+  protected handleHistoryShortcut(event: KeyboardEvent) {
+    const { ctrlKey, defaultPrevented, keyCode, metaKey, shiftKey } = event || {}
+
+    if (defaultPrevented || (!ctrlKey && !metaKey)) {
+      return
+    }
+
+    if (!Enlightenment.keyCodes.history.includes(keyCode) || this.isGrabbed) {
+      return
+    }
+
+    const host = this.useHost(this)
+
+    if (!this.currentElement && (!host || !host.currentElement)) {
+      return
+    }
+
+    // Ensure the history is only used once for the Draggable elements of the
+    // same interaction target.
+    if (shiftKey ? this.redo() : this.undo()) {
+      event.preventDefault()
+    }
+  }
+
+  /**
+   * Applies the recorded geometry from the defined direction within the
+   * history of the interaction target.
+   *
+   * @param direction Use -1 for the previous or 1 for the next entry.
+   */
+  protected useHistoryEntry(direction: number) {
+    this.defineTarget()
+
+    const context = this.interactionTarget
+
+    if (!context || this.isGrabbed) {
+      return false
+    }
+
+    const history = EnlightenmentDraggable.history.get(context)
+    const index = history ? EnlightenmentDraggable.moveHistory(history, direction) : undefined
+
+    if (!history || index === undefined) {
+      return false
+    }
+
+    this.applyGeometry(context, history.entries[index])
+
+    // Use the actual applied geometry to prevent a duplicate entry.
+    history.entries[index] = this.useGeometry(context)
+    this.updateStretched(context)
+
+    this.dispatchHistory(direction < 0 ? 'undo' : 'redo', history)
+
+    return true
+  }
+
+  /**
+   * Restores the persisted geometry from the defined [persist] key and ensures
+   * the restored geometry fits within the current viewport.
+   */
+  protected restoreGeometry() {
+    if (!this.persist || this.position === 'static') {
+      return
+    }
+
+    this.defineTarget()
+
+    const context = this.interactionTarget
+
+    if (!context) {
+      return
+    }
+
+    const entry = this.useStorage().read<EnlightenmentDraggablePersistEntry>(this.persist)
+
+    if (!entry || entry instanceof Object === false) {
+      return
+    }
+
+    if (entry.position && entry.position !== this.position) {
+      this.log(`Unable to restore ${this.persist} from another position type`, 'warning')
+
+      return
+    }
+
+    this.applyGeometry(context, entry)
+    this.updateStretched(context)
+
+    this.log([`Geometry restored for ${this.persist}:`, entry], 'info')
+  }
+
+  /**
+   * Applies the defined geometry to the context and ensures the geometry fits
+   * within the current viewport.
+   *
+   * @param context Apply the geometry to the defined Element.
+   * @param entry The geometry to apply.
+   */
+  protected applyGeometry(context: HTMLElement, entry: EnlightenmentDraggablePersistEntry) {
+    const inline = this.position === 'inline'
+    const viewport = this.useBoundingRect()
+
+    let width = Math.min(entry.width || context.offsetWidth, viewport.width)
+    let height = Math.min(entry.height || context.offsetHeight, viewport.height)
+
+    if (entry.stretchX) {
+      width = viewport.width
+    }
+
+    if (entry.stretchY) {
+      height = viewport.height
+    }
+
+    // Inline contexts are compared from their initial offset position.
+    const offsetX = inline ? context.offsetLeft : 0
+    const offsetY = inline ? context.offsetTop : 0
+
+    const x =
+      Math.max(
+        viewport.left,
+        Math.min(offsetX + (entry.x || 0), viewport.left + viewport.width - width)
+      ) - offsetX
+
+    const y =
+      Math.max(
+        viewport.top,
+        Math.min(offsetY + (entry.y || 0), viewport.top + viewport.height - height)
+      ) - offsetY
+
+    if (inline) {
+      this.transform(context, x, y)
+    } else {
+      this.resize(context, { x, y, width, height })
+      this.transform(context, 0, 0)
+    }
+  }
+
+  /**
+   * Returns the assigned Storage instance or create a new instance from the
+   * defined [persist-storage] alias.
+   */
+  protected useStorage() {
+    if (!this.storage) {
+      this.storage = new EnlightenmentStorage(Enlightenment.NAMESPACE, this.persistStorage)
+    }
+
+    return this.storage
+  }
+
+  /**
+   * Moves the placeholder of the sortable item to the defined drop zone.
+   *
+   * @param zone The drop zone to move the placeholder to.
+   * @param x The current horizontal Pointer position.
+   * @param y The current vertical Pointer position.
+   */
+  protected assignSortPlaceholder(zone: HTMLElement, x: number, y: number) {
+    const { item, placeholder } = this.sortInteraction || {}
+
+    if (!item || !placeholder) {
+      return
+    }
+
+    const horizontal = this.axis === 'x'
+
+    // Insert the placeholder before the first item that is after the Pointer.
+    const sibling = Array.from(zone.children).find((child) => {
+      if (child === item || child === placeholder) {
+        return false
+      }
+
+      const { height, left, top, width } = child.getBoundingClientRect()
+
+      return horizontal ? x < left + width / 2 : y < top + height / 2
+    })
+
+    if (placeholder.parentElement !== zone || placeholder.nextElementSibling !== sibling) {
+      zone.insertBefore(placeholder, sibling || null)
+    }
+  }
+
+  /**
+   * Dispatches the dragenter and dragleave hooks when the sortable item has
+   * moved to another drop zone.
+   *
+   * @param zone The current drop zone.
+   */
+  protected assignSortZone(zone?: HTMLElement) {
+    const interaction = this.sortInteraction
+
+    if (!interaction || interaction.zone === zone) {
+      return
+    }
+
+    const { item } = interaction
+
+    interaction.zone &&
+      this.hook(Enlightenment.defaults.customEvents.dragLeave, {
+        context: interaction.zone,
+        data: { destination: interaction.zone, item, source: this }
+      })
+
+    interaction.zone = zone
+
+    zone &&
+      this.hook(Enlightenment.defaults.customEvents.dragEnter, {
+        context: zone,
+        data: { destination: zone, item, source: this }
+      })
+  }
+
+  /**
+   * Creates the placeholder Element that is rendered at the drop position of
+   * the sortable item.
+   *
+   * @param item Use the size of the defined sortable item.
+   */
+  protected createSortPlaceholder(item: HTMLElement) {
+    const placeholder = document.createElement('div')
+    const { height, width } = item.getBoundingClientRect()
+
+    placeholder.setAttribute(EnlightenmentDraggable.defaults.Draggable.placeholder, '')
+    placeholder.setAttribute('aria-hidden', 'true')
+
+    placeholder.style.boxSizing = 'border-box'
+    placeholder.style.width = `${width}px`
+    placeholder.style.height = `${height}px`
+
+    return placeholder
+  }
+
+  /**
+   * Completes the sortable interaction and moves the item to the final drop
+   * position. The drop hook can be prevented to restore the initial position.
+   *
+   * @param event The optional Pointer, Mouse or Touch event.
+   * @param revert Restores the initial position of the item while TRUE.
+   */
+  protected handleSortEnd(event?: Event, revert?: boolean) {
+    const interaction = this.sortInteraction
+
+    if (!interaction) {
+      return
+    }
+
+    this.omitSortEvents()
+
+    const { item, keyboard, origin, placeholder, sibling, style } = interaction
+    const zone = placeholder ? placeholder.parentElement : item.parentElement
+
+    let drop = !revert && zone ? true : false
+
+    if (drop && zone) {
+      const children = Array.from(zone.children)
+
+      // The grabbed item is still within the zone while the placeholder is
+      // rendered, use the item itself within the keyboard interaction.
+      const index = placeholder
+        ? children.filter((child) => child !== item).indexOf(placeholder)
+        : children.indexOf(item)
+
+      drop =
+        this.hook(Enlightenment.defaults.customEvents.drop, {
+          cancelable: true,
+          context: zone,
+          data: { destination: zone, index, item, source: this }
+        }) !== false
+    }
+
+    if (drop && zone) {
+      placeholder && zone.insertBefore(item, placeholder)
+    } else {
+      origin.insertBefore(item, sibling && sibling.parentElement === origin ? sibling : null)
+    }
+
+    placeholder && placeholder.remove()
+
+    item.style.cssText = style
+    item.removeAttribute(Enlightenment.defaults.attr.grabbed)
+
+    this.sortInteraction = undefined
+    this.isGrabbed = false
+
+    keyboard && item.focus()
+
+    this.hook(Enlightenment.defaults.customEvents.dragEnd, {
+      context: this.interactionHost || this
+    })
+  }
+
+  /**
+   * Restores the initial position of the item when the sortable interaction
+   * is canceled by the browser.
+   *
+   * @param event The cancel Event of the Pointer or Touch interaction.
+   */
+  protected handleSortCancel(event?: Event) {
+    return this.handleSortEnd(event, true)
+  }
+
+  /**
+   * Reorders the sortable items with the keyboard: the confirm keys will grab
+   * or drop the focused item, the arrow keys will move the grabbed item and
+   * the exit key restores the initial position.
+   *
+   * @param event The Keyboard event of the sortable item.
+   */
+  protected handleSortKeyboard(event: KeyboardEvent) {
+    const { keyCode } = event || {}
+    const interaction = this.sortInteraction
+
+    if (this.preventEvent) {
+      return
+    }
+
+    if (!interaction) {
+      const item = this.useSortItem(event)
+
+      if (!item || !Enlightenment.keyCodes.confirm.includes(keyCode)) {
+        return
+      }
+
+      event.preventDefault()
+
+      this.sortInteraction = {
+        item,
+        keyboard: true,
+        origin: item.parentElement as HTMLElement,
+        pointerX: 0,
+        pointerY: 0,
+        sibling: item.nextElementSibling,
+        style: item.style.cssText
+      }
+
+      this.isGrabbed = true
+
+      item.setAttribute(Enlightenment.defaults.attr.grabbed, 'true')
+
+      this.hook(Enlightenment.defaults.customEvents.dragStart, {
+        context: this.interactionHost || this
+      })
+
+      return
+    }
+
+    if (!interaction.keyboard) {
+      return
+    }
+
+    if (Enlightenment.keyCodes.exit.includes(keyCode)) {
+      event.preventDefault()
+
+      return this.handleSortEnd(event, true)
+    }
+
+    if (Enlightenment.keyCodes.confirm.includes(keyCode)) {
+      event.preventDefault()
+
+      return this.handleSortEnd(event)
+    }
+
+    if (!Enlightenment.keyCodes.arrows.includes(keyCode)) {
+      return
+    }
+
+    event.preventDefault()
+
+    // Move the item before the previous or after the next sibling.
+    const { item } = interaction
+    const parent = item.parentElement
+
+    if (!parent) {
+      return
+    }
+
+    if ([37, 38].includes(keyCode)) {
+      item.previousElementSibling && parent.insertBefore(item, item.previousElementSibling)
+    } else if (item.nextElementSibling) {
+      parent.insertBefore(item, item.nextElementSibling.nextElementSibling)
+    }
+
+    item.focus()
+  }
+
+  /**
+   * Grabs the sortable item from the defined Pointer, Mouse or Touch event and
+   * renders the placeholder at the initial position.
+   *
+   * @param event The initial Pointer, Mouse or Touch event.
+   */
+  protected handleSortStart(event: MouseEvent | TouchEvent) {
+    if (!event || this.preventEvent || this.sortInteraction) {
+      return
+    }
+
+    if (EnlightenmentDraggable.isPointerEvent(event) && !event.isPrimary) {
+      return
+    }
+
+    if (event instanceof MouseEvent && event.button !== 0) {
+      return
+    }
+
+    const item = this.useSortItem(event)
+
+    if (!item || !item.parentElement) {
+      return
+    }
+
+    event.preventDefault && event.preventDefault()
+
+    const [pointerX, pointerY] = this.usePointerPosition(event)
+    const { height, left, top, width } = item.getBoundingClientRect()
+    const placeholder = this.createSortPlaceholder(item)
+
+    this.sortInteraction = {
+      item,
+      origin: item.parentElement,
+      placeholder,
+      pointerX,
+      pointerY,
+      sibling: item.nextElementSibling,
+      style: item.style.cssText,
+      zone: this
+    }
+
+    item.parentElement.insertBefore(placeholder, item)
+
+    // Move the item outside the document flow while it follows the Pointer.
+    item.style.boxSizing = 'border-box'
+    item.style.height = `${height}px`
+    item.style.left = `${left}px`
+    item.style.margin = '0'
+    item.style.pointerEvents = 'none'
+    item.style.position = 'fixed'
+    item.style.top = `${top}px`
+    item.style.width = `${width}px`
+    item.style.zIndex = '2147483647'
+
+    item.setAttribute(Enlightenment.defaults.attr.grabbed, 'true')
+
+    this.isGrabbed = true
+
+    if (this.usePointerEvents()) {
+      this.assignGlobalEvent('pointermove', this.handleSortUpdate, {
+        context: document.documentElement
+      })
+      this.assignGlobalEvent('pointerup', this.handleSortEnd)
+      this.assignGlobalEvent('pointercancel', this.handleSortCancel)
+    } else {
+      this.assignGlobalEvent('mousemove', this.handleSortUpdate, {
+        context: document.documentElement
+      })
+      this.assignGlobalEvent('mouseup', this.handleSortEnd)
+      this.assignGlobalEvent('touchmove', this.handleSortUpdate, {
+        context: document.documentElement
+      })
+      this.assignGlobalEvent('touchend', this.handleSortEnd)
+      this.assignGlobalEvent('touchcancel', this.handleSortCancel)
+    }
+
+    this.hook(Enlightenment.defaults.customEvents.dragStart, {
+      context: this.interactionHost || this
+    })
+  }
+
+  /**
+   * Moves the grabbed sortable item with the Pointer and renders the
+   * placeholder within the drop zone below the Pointer.
+   *
+   * @param event The Pointer, Mouse or Touch event.
+   */
+  protected handleSortUpdate(event: MouseEvent | TouchEvent) {
+    const interaction = this.sortInteraction
+
+    if (!interaction || !interaction.placeholder) {
+      return
+    }
+
+    const [x, y] = this.usePointerPosition(event)
+    const { axis } = this
+
+    this.transform(
+      interaction.item,
+      axis === 'y' ? 0 : x - interaction.pointerX,
+      axis === 'x' ? 0 : y - interaction.pointerY
+    )
+
+    const zone = this.useSortZone(x, y)
+
+    this.assignSortZone(zone)
+
+    zone && this.assignSortPlaceholder(zone, x, y)
+  }
+
+  /**
+   * Removes the assigned Event listeners of the sortable interaction.
+   */
+  protected omitSortEvents() {
+    this.omitGlobalEvent('pointermove', this.handleSortUpdate)
+    this.omitGlobalEvent('pointerup', this.handleSortEnd)
+    this.omitGlobalEvent('pointercancel', this.handleSortCancel)
+    this.omitGlobalEvent('mousemove', this.handleSortUpdate)
+    this.omitGlobalEvent('mouseup', this.handleSortEnd)
+    this.omitGlobalEvent('touchmove', this.handleSortUpdate)
+    this.omitGlobalEvent('touchend', this.handleSortEnd)
+    this.omitGlobalEvent('touchcancel', this.handleSortCancel)
+  }
+
+  /**
+   * Ensures the sortable items can receive keyboard focus.
+   */
+  protected updateSortItems() {
+    Array.from(this.children).forEach((child) => {
+      !child.hasAttribute('tabindex') && child.setAttribute('tabindex', '0')
+    })
+  }
+
+  /**
+   * Returns the sortable item from the defined Event, the sortable items are
+   * the direct child Elements of this Component.
+   *
+   * @param event Use the composed path of the defined Event.
+   */
+  protected useSortItem(event: Event) {
+    const path = event && event.composedPath ? event.composedPath() : []
+
+    return path.find(
+      (target) =>
+        target instanceof HTMLElement &&
+        target.parentElement === this &&
+        !target.hasAttribute(EnlightenmentDraggable.defaults.Draggable.placeholder)
+    ) as HTMLElement | undefined
+  }
+
+  /**
+   * Returns the drop zone from the defined Pointer position, this Component is
+   * the default drop zone while the other drop zones should match the
+   * defined [drop-zone] value.
+   *
+   * @param x The horizontal Pointer position.
+   * @param y The vertical Pointer position.
+   */
+  protected useSortZone(x: number, y: number) {
+    const elements = document.elementsFromPoint ? document.elementsFromPoint(x, y) : []
+
+    for (const element of elements) {
+      let target: Element | null = element
+
+      while (target) {
+        if (target === this) {
+          return this
+        }
+
+        if (this.dropZone && target.getAttribute('drop-zone') === this.dropZone) {
+          return target as HTMLElement
+        }
+
+        target = target.parentElement
+      }
+    }
+
+    return
+  }
+
+  /**
+   * Assign the keyboard interaction for the Component and any slotted Element.
+   */
+  public connectedCallback() {
+    super.connectedCallback()
+
+    this.globals.assignProvider(this.useWindowManager())
+
+    this.assignGlobalEvent('keydown', this.handleKeyboardUpdate, { context: this })
+    this.assignGlobalEvent('keyup', this.handleKeyboardEnd, { context: this })
+    this.assignGlobalEvent('keydown', this.handleHistoryShortcut)
+  }
+
+  /**
+   * Restores the next recorded geometry of the interaction target.
+   */
+  public redo() {
+    return this.useHistoryEntry(1)
+  }
+
+  /**
+   * Restores the previous recorded geometry of the interaction target.
+   */
+  public undo() {
+    return this.useHistoryEntry(-1)
+  }
+
+  /**
+   * Removes the assigned keyboard interaction and bounds observers.
+   */
+  public disconnectedCallback() {
+    this.omitGlobalEvent('keydown', this.handleKeyboardUpdate)
+    this.omitGlobalEvent('keyup', this.handleKeyboardEnd)
+    this.omitGlobalEvent('keydown', this.handleHistoryShortcut)
+
+    this.omitBounds()
+    this.omitWindow()
+    this.stopInertia()
+
+    this.sortInteraction && this.handleSortEnd(undefined, true)
+
+    super.disconnectedCallback()
+  }
+
+  /**
+   * Render the initial HTML that will apply the interaction no the existing
+   * host component or defined target selector (closest or childElement).
+   *
+   * Or render the intial Slot element that is the default context Element with
+   * a Draggable interaction if the [static] property is defined for the
+   * initial Component:
+   * <... static></...> Apply Drag interaction on the first slotted Element.
+   * <... static pivot=""></...> Apply pivot interaction on the first slotted
+   * Element.
+   */
+  render() {
+    const useContent =
+      this.position !== 'static' && this.interactionTarget && this.pivot
+        ? false
+        : this.static || this.sortable || this.position === 'static'
+
+    // Use the Mouse & Touch Events as fallback for the Pointer Events.
+    const usePointer = this.usePointerEvents()
 
     return html`<slot
       ?visually-hidden="${!useContent}"
       pivot="${this.pivot}"
-      @touchstart=${this.handleDragStart}
-      @mousedown=${this.handleDragStart}
+      @pointerdown=${usePointer ? this.handleDragStart : nothing}
+      @touchstart=${usePointer ? nothing : this.handleDragStart}
+      @mousedown=${usePointer ? nothing : this.handleDragStart}
     ></slot>`
   }
 }
@@ -2,6 +2,8 @@ import { createFocusTrap, FocusTrap } from 'focus-trap'
 
 import { createRef, customElement, Enlightenment, html, property, ref } from '../Enlightenment'
 
+import { EnlightenmentEventName } from '../_types/main'
+
 @customElement('focus-trap')
 
 /**
@@ -228,7 +230,7 @@ export class EnlightenmentFocusTrap extends Enlightenment {
    * instance, this means that `this` is actually checked directly and the
    * optional HTML Attribute that could exist within the DOM.
    */
-  protected handleUpdate(name?: string | undefined): void {
+  protected handleUpdate(name?: EnlightenmentEventName): void {
     super.handleUpdate(name)
 
     this.updateAttributeAlias('isActive', EnlightenmentFocusTrap.defaults.attr.active)
@@ -0,0 +1,160 @@
+import { EnlightenmentContextCallback } from '../_types/main'
+
+/**
+ * Requests the value of the defined context key from the nearest provider
+ * within the composed DOM tree. This Event is compatible with the community
+ * context-request protocol, any compatible provider can answer the request by
+ * calling the callback with the provided value.
+ *
+ * The callback is called again with the updated value for a subscribed
+ * request until the unsubscribe handler of the callback is called.
+ */
+export class EnlightenmentContextRequestEvent<T = any> extends Event {
+  callback: EnlightenmentContextCallback<T>
+  context: unknown
+  contextTarget: Element
+  subscribe?: boolean
+
+  constructor(
+    context: unknown,
+    contextTarget: Element,
+    callback: EnlightenmentContextCallback<T>,
+    subscribe?: boolean
+  ) {
+    super('context-request', { bubbles: true, composed: true })
+
+    this.callback = callback
+    this.context = context
+    this.contextTarget = contextTarget
+    this.subscribe = subscribe
+  }
+}
+
+/**
+ * Notifies the context root that a new provider is available for the defined
+ * context key in order to replay the pending requests.
+ */
+export class EnlightenmentContextProviderEvent extends Event {
+  context: unknown
+  contextTarget: Element
+
+  constructor(context: unknown, contextTarget: Element) {
+    super('context-provider', { bubbles: true, composed: true })
+
+    this.context = context
+    this.contextTarget = contextTarget
+  }
+}
+
+/**
+ * The EnlightenmentContextRoot collects the subscribed requests that have not
+ * been answered, since the nested Component can request a context before the
+ * provider has been defined. The pending requests are dispatched again from the
+ * requesting Element when a provider for the requested context is assigned.
+ */
+export class EnlightenmentContextRoot {
+  /**
+   * Contains the pending request callbacks for each requesting Element grouped
+   * by the requested context.
+   */
+  pending: Map<unknown, Map<Element, EnlightenmentContextCallback>> = new Map()
+
+  /**
+   * The attached root that receives the unanswered requests.
+   */
+  root?: EventTarget
+
+  constructor() {
+    this.handleRequest = this.handleRequest.bind(this)
+    this.handleProvider = this.handleProvider.bind(this)
+  }
+
+  /**
+   * Listens for the unanswered requests within the defined root.
+   *
+   * @param root Attach to the defined root.
+   */
+  attach(root: EventTarget) {
+    if (!root || this.root === root) {
+      return false
+    }
+
+    this.detach()
+
+    this.root = root
+    this.root.addEventListener('context-request', this.handleRequest)
+    this.root.addEventListener('context-provider', this.handleProvider)
+
+    return true
+  }
+
+  /**
+   * Removes the assigned Event listeners and the pending requests.
+   */
+  detach() {
+    if (!this.root) {
+      return false
+    }
+
+    this.root.removeEventListener('context-request', this.handleRequest)
+    this.root.removeEventListener('context-provider', this.handleProvider)
+    this.root = undefined
+    this.pending.clear()
+
+    return true
+  }
+
+  /**
+   * Removes the pending requests of the defined Element.
+   *
+   * @param element Omit the requests of the defined Element.
+   */
+  omit(element: Element) {
+    this.pending.forEach((requests, context) => {
+      requests.delete(element)
+
+      !requests.size && this.pending.delete(context)
+    })
+  }
+
+  /**
+   * Stores the unanswered subscribed request.
+   *
+   * @param event The unanswered request Event.
+   */
+  protected handleRequest(event: Event) {
+    const { callback, context, contextTarget, subscribe } =
+      event as EnlightenmentContextRequestEvent
+
+    if (!subscribe || typeof callback !== 'function' || !contextTarget) {
+      return
+    }
+
+    const requests = this.pending.get(context) || new Map()
+
+    requests.set(contextTarget, callback)
+
+    this.pending.set(context, requests)
+  }
+
+  /**
+   * Dispatches the pending requests of the provided context again, the
+   * requests that are not answered by the new provider are stored again.
+   *
+   * @param event The provider Event of the assigned provider.
+   */
+  protected handleProvider(event: Event) {
+    const { context } = event as EnlightenmentContextProviderEvent
+    const requests = this.pending.get(context)
+
+    if (!requests) {
+      return
+    }
+
+    this.pending.delete(context)
+
+    requests.forEach((callback, element) =>
+      element.dispatchEvent(new EnlightenmentContextRequestEvent(context, element, callback, true))
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { ColorMode, EnlightenmentProvider, EnlightenmentProviders } from '../_types/main'
 
 import { Enlightenment } from '../Enlightenment'
+import { EnlightenmentStore } from './Store'
+import { EnlightenmentWindowManager } from './WindowManager'
 
 /**
  * The EnlightenmentGlobals implements the mandatory global variables and
@@ -45,6 +47,18 @@ export class EnlightenmentGlobals {
    */
   providers: EnlightenmentProviders = []
 
+  /**
+   * The shared Store of the Components that use the Globals.
+   * @see EnlightenmentKernel.useStore()
+   */
+  store?: EnlightenmentStore
+
+  /**
+   * Defines the stacking order of the Draggable windows that use the Globals.
+   * @see EnlightenmentDraggable.useWindowManager()
+   */
+  windowManager?: EnlightenmentWindowManager
+
   /**
    * Contains the assigned instances defined from assignInstance()
    */
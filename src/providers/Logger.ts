@@ -0,0 +1,232 @@
+import {
+  EnlightenmentLogLevel,
+  EnlightenmentLogRecord,
+  EnlightenmentLogTransport
+} from '../_types/main'
+
+/**
+ * In-memory transport that keeps the last written log records within the
+ * defined limit. The oldest record is removed when the limit is reached.
+ */
+export class EnlightenmentLogBuffer {
+  /**
+   * Defines the maximum amount of records to keep.
+   */
+  limit: number
+
+  /**
+   * Contains the written records from the oldest to the latest record.
+   */
+  records: EnlightenmentLogRecord[] = []
+
+  constructor(limit = 100) {
+    this.limit = Math.max(1, limit)
+  }
+
+  /**
+   * Removes all the written records.
+   */
+  clear() {
+    this.records = []
+  }
+
+  /**
+   * Returns the transport callback that writes to the constructed buffer.
+   */
+  useTransport(): EnlightenmentLogTransport {
+    return (record) => this.write(record)
+  }
+
+  /**
+   * Writes the defined record and removes the oldest record when the limit is
+   * exceeded.
+   *
+   * @param record The record to write.
+   */
+  write(record: EnlightenmentLogRecord) {
+    this.records.push(record)
+
+    if (this.records.length > this.limit) {
+      this.records.splice(0, this.records.length - this.limit)
+    }
+  }
+}
+
+/**
+ * The EnlightenmentLogger provider writes the structured log records of each
+ * Enlightenment Component to the assigned transports. A record is only written
+ * when the level of the record reaches the threshold of the Logger or the
+ * optional threshold of the Component that writes the record.
+ *
+ * The console transport is assigned by default but any callback can be
+ * assigned as transport; like the EnlightenmentLogBuffer that keeps the latest
+ * records in memory. The written records can also be captured within a test
+ * environment without writing them to any of the assigned transports:
+ *
+ * const buffer = logger.capture()
+ * ...
+ * logger.release()
+ */
+export class EnlightenmentLogger {
+  /**
+   * Defines the numeric value of each log level.
+   */
+  static levels: { [level in EnlightenmentLogLevel]: number } = {
+    debug: 10,
+    log: 20,
+    info: 30,
+    warning: 40,
+    error: 50,
+    silent: 100
+  }
+
+  /**
+   * Default transport that writes the record to the matching console method.
+   *
+   * @param record The record to write.
+   */
+  static console: EnlightenmentLogTransport = (record) => {
+    const t = record.level === 'warning' ? 'warn' : record.level
+    const stdout = (console as any)[t]
+
+    if (typeof stdout !== 'function') {
+      return
+    }
+
+    stdout(...record.message.map((entry) => (typeof entry === 'function' ? [entry] : entry)))
+  }
+
+  /**
+   * Returns the log level from the defined value or the default level when
+   * the value is not a valid level.
+   *
+   * @param value Returns the level from the defined value.
+   * @param fallback Use the defined fallback level instead.
+   */
+  static useLevel(value?: any, fallback: EnlightenmentLogLevel = 'log') {
+    const level = String(value || '').toLowerCase()
+
+    if (level === 'warn') {
+      return 'warning'
+    }
+
+    return Object.keys(EnlightenmentLogger.levels).includes(level)
+      ? (level as EnlightenmentLogLevel)
+      : fallback
+  }
+
+  /**
+   * Contains the captured records while the capture mode is active.
+   * @see capture()
+   */
+  captured?: EnlightenmentLogBuffer
+
+  /**
+   * Minimum level of the records to write.
+   */
+  level: EnlightenmentLogLevel
+
+  /**
+   * Contains the assigned transports that receive each written record.
+   */
+  transports: EnlightenmentLogTransport[] = [EnlightenmentLogger.console]
+
+  constructor(level: EnlightenmentLogLevel = 'error') {
+    this.level = level
+  }
+
+  /**
+   * Assigns the defined transport that receives each written record.
+   *
+   * @param transport The transport to assign.
+   */
+  assignTransport(transport: EnlightenmentLogTransport) {
+    if (typeof transport !== 'function' || this.transports.includes(transport)) {
+      return false
+    }
+
+    this.transports.push(transport)
+
+    return true
+  }
+
+  /**
+   * Writes the records to a new buffer instead of the assigned transports
+   * until release() is called. Any record is captured regardless of the
+   * threshold.
+   *
+   * @param limit Keep the defined amount of records.
+   */
+  capture(limit?: number) {
+    this.captured = new EnlightenmentLogBuffer(limit)
+
+    return this.captured
+  }
+
+  /**
+   * Checks if the record with the defined level should be written.
+   *
+   * @param level The level of the record.
+   * @param threshold Use the defined threshold instead of the Logger level.
+   */
+  isEnabled(level: EnlightenmentLogLevel, threshold?: EnlightenmentLogLevel) {
+    const { levels } = EnlightenmentLogger
+
+    return levels[level] >= levels[threshold || this.level] && level !== 'silent'
+  }
+
+  /**
+   * Removes the defined transport.
+   *
+   * @param transport The transport to omit.
+   */
+  omitTransport(transport: EnlightenmentLogTransport) {
+    if (!this.transports.includes(transport)) {
+      return false
+    }
+
+    this.transports = this.transports.filter((t) => t !== transport)
+
+    return true
+  }
+
+  /**
+   * Stops the capture mode and returns the captured buffer.
+   */
+  release() {
+    const { captured } = this
+
+    this.captured = undefined
+
+    return captured
+  }
+
+  /**
+   * Writes the defined record to the assigned transports when the level of the
+   * record reaches the defined threshold.
+   *
+   * @param record The record to write.
+   * @param threshold Use the defined threshold instead of the Logger level.
+   */
+  write(record: EnlightenmentLogRecord, threshold?: EnlightenmentLogLevel) {
+    if (this.captured) {
+      this.captured.write(record)
+
+      return true
+    }
+
+    if (!this.isEnabled(record.level, threshold)) {
+      return false
+    }
+
+    this.transports.forEach((transport) => {
+      try {
+        transport(record)
+      } catch (exception) {
+        // Prevent any recursive log from a failing transport.
+      }
+    })
+
+    return true
+  }
+}
@@ -0,0 +1,402 @@
+import {
+  EnlightenmentSchedulerJob,
+  EnlightenmentSchedulerMode,
+  EnlightenmentSchedulerOptions,
+  EnlightenmentSchedulerTask
+} from '../_types/main'
+
+import { EnlightenmentMixins } from '../core/Mixins'
+
+/**
+ * The EnlightenmentScheduler defers the defined handlers within the defined
+ * context and ensures a handler is only pending once for the same arguments.
+ * The pending jobs are grouped by handler in order to find an existing job
+ * without filtering all the pending jobs.
+ *
+ * Each schedule() call returns a task with a cancel handle and a promise that
+ * resolves with the result of the handler. The promise of a canceled or
+ * dropped call resolves without a value. The following modes can be used:
+ * - debounce: Only call the handler after the last call within the delay.
+ * - throttle: Call the handler at most once within the delay with the
+ * optional leading and trailing calls.
+ * - frame: Call the handler once within the next Animation Frame.
+ * - microtask: Call the handler once after the current task.
+ * - idle: Call the handler once when the browser is idle or when the delay
+ * has passed.
+ */
+export class EnlightenmentScheduler {
+  /**
+   * Defines the accepted scheduler modes.
+   */
+  static modes: EnlightenmentSchedulerMode[] = [
+    'debounce',
+    'throttle',
+    'frame',
+    'microtask',
+    'idle'
+  ]
+
+  /**
+   * The context to use for each handler.
+   */
+  context: any
+
+  /**
+   * Default delay in MS to use for the debounce, throttle & idle modes.
+   */
+  delay: number
+
+  /**
+   * Contains the pending jobs grouped by the scheduled handler.
+   */
+  jobs: Map<Function, EnlightenmentSchedulerJob[]> = new Map()
+
+  constructor(context?: any, delay = 1000 / 60) {
+    this.context = context
+    this.delay = delay
+  }
+
+  /**
+   * Returns the amount of pending jobs.
+   */
+  get size() {
+    let size = 0
+
+    this.jobs.forEach((jobs) => (size += jobs.length))
+
+    return size
+  }
+
+  /**
+   * Cancels the pending jobs of the defined handler, or only the job with
+   * matching arguments when defined.
+   *
+   * @param handler Cancel the jobs of the defined handler.
+   * @param args Only cancel the job with the defined arguments.
+   */
+  cancel(handler: Function, args?: any[]) {
+    const jobs = this.jobs.get(handler)
+
+    if (!jobs) {
+      return false
+    }
+
+    const commit = args ? jobs.filter((job) => this.isJob(job, args)) : [...jobs]
+
+    commit.forEach((job) => this.cancelJob(job))
+
+    return commit.length > 0
+  }
+
+  /**
+   * Cancels all the pending jobs.
+   */
+  clear() {
+    const jobs: EnlightenmentSchedulerJob[] = []
+
+    this.jobs.forEach((j) => jobs.push(...j))
+
+    jobs.forEach((job) => this.cancelJob(job))
+
+    this.jobs.clear()
+
+    return jobs.length
+  }
+
+  /**
+   * Checks if the defined handler is pending, optionally with the defined
+   * arguments.
+   *
+   * @param handler Check the jobs of the defined handler.
+   * @param args Check the job with the defined arguments.
+   */
+  has(handler: Function, args?: any[]) {
+    return args ? this.useJob(handler, args) !== undefined : this.jobs.has(handler)
+  }
+
+  /**
+   * Schedules the defined handler with the defined mode.
+   *
+   * @param handler The handler to schedule.
+   * @param options Schedule the handler with the defined options.
+   */
+  schedule(
+    handler: Function,
+    options?: EnlightenmentSchedulerOptions
+  ): EnlightenmentSchedulerTask | undefined {
+    if (typeof handler !== 'function') {
+      return
+    }
+
+    const { args, delay, leading, mode, trailing } = options || {}
+    const a = args || []
+    const ms = parseInt(String(delay)) >= 0 ? parseInt(String(delay)) : this.delay
+    const m = mode && EnlightenmentScheduler.modes.includes(mode) ? mode : 'debounce'
+    const exists = this.useJob(handler, a)
+
+    if (m === 'throttle') {
+      return this.scheduleThrottle(handler, a, ms, leading !== false, trailing !== false, exists)
+    }
+
+    if (exists && m === 'debounce') {
+      this.clearRequest(exists)
+      this.assignRequest(exists, ms)
+
+      return this.useTask(exists)
+    }
+
+    // The job will be called during the initial request.
+    if (exists) {
+      return this.useTask(exists)
+    }
+
+    const job = this.createJob(handler, a, m)
+
+    this.assignRequest(job, ms)
+
+    return this.useTask(job)
+  }
+
+  /**
+   * Defines the actual request that calls the defined job from the job mode.
+   *
+   * @param job Assign the request for the defined job.
+   * @param delay Use the defined delay for the debounce, throttle & idle mode.
+   */
+  protected assignRequest(job: EnlightenmentSchedulerJob, delay: number) {
+    const callback = () => this.handleJob(job)
+
+    if (job.mode === 'frame' && typeof requestAnimationFrame === 'function') {
+      job.request = requestAnimationFrame(callback)
+    } else if (job.mode === 'microtask') {
+      job.request = undefined
+
+      queueMicrotask(() => job.active && callback())
+    } else if (job.mode === 'idle' && typeof requestIdleCallback === 'function') {
+      job.request = requestIdleCallback(callback, { timeout: delay })
+    } else {
+      job.request = setTimeout(callback, job.mode === 'frame' ? 1000 / 60 : delay)
+    }
+  }
+
+  /**
+   * Stops the defined job and resolves the pending promise without a value.
+   *
+   * @param job Cancel the defined job.
+   */
+  protected cancelJob(job: EnlightenmentSchedulerJob) {
+    this.clearRequest(job)
+    this.omitJob(job)
+
+    job.resolve(undefined)
+  }
+
+  /**
+   * Clears the assigned request of the defined job.
+   *
+   * @param job Clear the request of the defined job.
+   */
+  protected clearRequest(job: EnlightenmentSchedulerJob) {
+    if (job.request === undefined) {
+      return
+    }
+
+    if (job.mode === 'frame' && typeof cancelAnimationFrame === 'function') {
+      cancelAnimationFrame(job.request as number)
+    } else if (job.mode === 'idle' && typeof cancelIdleCallback === 'function') {
+      cancelIdleCallback(job.request as number)
+    } else {
+      clearTimeout(job.request as ReturnType<typeof setTimeout>)
+    }
+
+    job.request = undefined
+  }
+
+  /**
+   * Creates and assigns a new pending job for the defined handler.
+   *
+   * @param handler Create the job for the defined handler.
+   * @param args Call the handler with the defined arguments.
+   * @param mode Use the defined scheduler mode.
+   */
+  protected createJob(handler: Function, args: any[], mode: EnlightenmentSchedulerMode) {
+    const job = { active: true, args, handler, mode, pending: false } as EnlightenmentSchedulerJob
+
+    this.assignDeferred(job)
+
+    const jobs = this.jobs.get(handler)
+
+    if (jobs) {
+      jobs.push(job)
+    } else {
+      this.jobs.set(handler, [job])
+    }
+
+    return job
+  }
+
+  /**
+   * Defines a new promise for the defined job that resolves after the next
+   * call.
+   *
+   * @param job Assign the promise to the defined job.
+   */
+  protected assignDeferred(job: EnlightenmentSchedulerJob) {
+    job.promise = new Promise((resolve, reject) => {
+      job.resolve = resolve
+      job.reject = reject
+    })
+  }
+
+  /**
+   * Calls the handler of the defined job and resolves the pending promise.
+   *
+   * @param job Call the defined job.
+   * @param keep Keep the job pending for the optional throttle cooldown.
+   */
+  protected handleJob(job: EnlightenmentSchedulerJob, keep?: boolean) {
+    const { reject, resolve } = job
+
+    job.request = undefined
+
+    if (keep) {
+      this.assignDeferred(job)
+    } else {
+      this.omitJob(job)
+    }
+
+    try {
+      resolve(job.handler.call(this.context, ...job.args))
+    } catch (exception) {
+      reject(exception)
+    }
+  }
+
+  /**
+   * Checks if the defined job was scheduled with the defined arguments.
+   *
+   * @param job Compare the arguments of the defined job.
+   * @param args Compare with the defined arguments.
+   */
+  protected isJob(job: EnlightenmentSchedulerJob, args: any[]) {
+    return job.args === args || EnlightenmentMixins.compareValue(args, job.args) === true
+  }
+
+  /**
+   * Removes the defined job from the pending jobs.
+   *
+   * @param job Omit the defined job.
+   */
+  protected omitJob(job: EnlightenmentSchedulerJob) {
+    job.active = false
+
+    const jobs = this.jobs.get(job.handler)
+
+    if (!jobs) {
+      return
+    }
+
+    const commit = jobs.filter((j) => j !== job)
+
+    if (commit.length) {
+      this.jobs.set(job.handler, commit)
+    } else {
+      this.jobs.delete(job.handler)
+    }
+  }
+
+  /**
+   * Calls the defined handler at most once within the defined delay. The
+   * leading call is called directly while the optional trailing call is
+   * called at the end of the delay when the handler was scheduled again.
+   *
+   * @param handler The handler to throttle.
+   * @param args Call the handler with the defined arguments.
+   * @param delay The delay between each call.
+   * @param leading Call the handler at the start of the delay.
+   * @param trailing Call the handler at the end of the delay.
+   * @param exists Use the existing job of the handler.
+   */
+  protected scheduleThrottle(
+    handler: Function,
+    args: any[],
+    delay: number,
+    leading: boolean,
+    trailing: boolean,
+    exists?: EnlightenmentSchedulerJob
+  ) {
+    if (exists) {
+      exists.pending = trailing
+
+      return this.useTask(exists)
+    }
+
+    const job = this.createJob(handler, args, 'throttle')
+
+    const cooldown = () => {
+      if (!job.pending) {
+        return this.cancelJob(job)
+      }
+
+      job.pending = false
+
+      this.handleJob(job, true)
+
+      job.request = setTimeout(cooldown, delay)
+    }
+
+    if (leading) {
+      const task = { cancel: () => false, promise: job.promise }
+
+      this.handleJob(job, true)
+
+      job.request = setTimeout(cooldown, delay)
+
+      return task
+    }
+
+    job.pending = trailing
+    job.request = setTimeout(cooldown, delay)
+
+    return this.useTask(job)
+  }
+
+  /**
+   * Returns the pending job of the defined handler with matching arguments.
+   *
+   * @param handler Find the job of the defined handler.
+   * @param args Find the job with the defined arguments.
+   */
+  protected useJob(handler: Function, args: any[]) {
+    const jobs = this.jobs.get(handler)
+
+    if (!jobs) {
+      return
+    }
+
+    return jobs.find((job) => this.isJob(job, args))
+  }
+
+  /**
+   * Returns the public task of the defined job.
+   *
+   * @param job Returns the task from the defined job.
+   */
+  protected useTask(job: EnlightenmentSchedulerJob): EnlightenmentSchedulerTask {
+    const { promise } = job
+
+    return {
+      cancel: () => {
+        // Ignore the task that has been called or replaced already.
+        if (!job.active || job.promise !== promise) {
+          return false
+        }
+
+        this.cancelJob(job)
+
+        return true
+      },
+      promise
+    }
+  }
+}
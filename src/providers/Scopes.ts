@@ -0,0 +1,126 @@
+import { EnlightenmentGlobals } from './Globals'
+
+/**
+ * The EnlightenmentScopes provider contains the scoped Globals that are
+ * attached to a DOM subtree; like an <enlightenment-scope> root or any Element
+ * with the [enlightenment-scope] Attribute. Each Component resolves the Globals
+ * of the nearest scope across the shadow roots and uses the default Globals
+ * when no scope exists.
+ *
+ * This ensures multiple independent applications on the same page don't share
+ * the same mode, currentElements, instances and providers:
+ *
+ * <enlightenment-scope enlightenment-scope="app">...</enlightenment-scope>
+ */
+export class EnlightenmentScopes {
+  /**
+   * Marks the defined Element as scope root.
+   */
+  static attribute = 'enlightenment-scope'
+
+  /**
+   * Tag name of the optional scope root Element.
+   */
+  static tagName = 'enlightenment-scope'
+
+  /**
+   * Checks if the defined Element should be used as scope root.
+   *
+   * @param element Validate the defined Element.
+   */
+  static isScope(element: any) {
+    if (!element || typeof element.hasAttribute !== 'function') {
+      return false
+    }
+
+    return (
+      String(element.tagName).toLowerCase() === EnlightenmentScopes.tagName ||
+      element.hasAttribute(EnlightenmentScopes.attribute)
+    )
+  }
+
+  /**
+   * The default Globals that is used outside any scope.
+   */
+  fallback: EnlightenmentGlobals
+
+  /**
+   * Contains the Globals of each assigned scope root.
+   */
+  scopes: WeakMap<Element, EnlightenmentGlobals> = new WeakMap()
+
+  constructor(fallback: EnlightenmentGlobals) {
+    this.fallback = fallback
+  }
+
+  /**
+   * Assigns new Globals to the defined scope root, or the defined Globals
+   * instead. The new Globals inherit the mode and verbose state from the
+   * default Globals while the namespace is defined from the scope Attribute.
+   *
+   * @param element Assign the Globals to the defined scope root.
+   * @param globals Use the defined Globals instead.
+   */
+  assign(element: Element, globals?: EnlightenmentGlobals) {
+    const exists = this.scopes.get(element)
+
+    if (exists && !globals) {
+      return exists
+    }
+
+    const namespace = element.getAttribute && element.getAttribute(EnlightenmentScopes.attribute)
+    const commit = globals || new EnlightenmentGlobals(namespace || this.fallback.namespace)
+
+    if (!globals) {
+      commit.mode = this.fallback.mode
+      commit.verbose = this.fallback.verbose
+    }
+
+    this.scopes.set(element, commit)
+
+    return commit
+  }
+
+  /**
+   * Checks if Globals are assigned to the defined scope root.
+   *
+   * @param element Check the defined scope root.
+   */
+  has(element: Element) {
+    return this.scopes.has(element)
+  }
+
+  /**
+   * Removes the Globals of the defined scope root.
+   *
+   * @param element Omit the Globals of the defined scope root.
+   */
+  omit(element: Element) {
+    return this.scopes.delete(element)
+  }
+
+  /**
+   * Returns the Globals of the nearest scope root from the defined context,
+   * including the context itself, or the default Globals otherwise.
+   *
+   * @param context Traverse upwards from the defined context.
+   */
+  use(context?: any): EnlightenmentGlobals {
+    let current = context
+
+    while (current) {
+      if (this.scopes.has(current)) {
+        return this.scopes.get(current) as EnlightenmentGlobals
+      }
+
+      if (EnlightenmentScopes.isScope(current)) {
+        return this.assign(current)
+      }
+
+      // Continue from the shadow host when the shadow root is reached.
+      current = current.parentNode || current.host
+    }
+
+    return this.fallback
+  }
+}
@@ -0,0 +1,155 @@
+import { EnlightenmentStorageAdapter, EnlightenmentStorageType } from '../_types/main'
+
+/**
+ * Minimal in-memory Storage adapter that is used as fallback when the
+ * requested Web Storage is not available; like within a Node (test)
+ * environment or a restricted browser context.
+ */
+export class EnlightenmentMemoryStorage implements EnlightenmentStorageAdapter {
+  /**
+   * Contains the stored values for the constructed instance.
+   */
+  entries: Map<string, string> = new Map()
+
+  getItem(key: string) {
+    return this.entries.has(key) ? (this.entries.get(key) as string) : null
+  }
+
+  removeItem(key: string) {
+    this.entries.delete(key)
+  }
+
+  setItem(key: string, value: string) {
+    this.entries.set(key, String(value))
+  }
+}
+
+/**
+ * The EnlightenmentStorage provider reads and writes serialized values with
+ * the defined Storage adapter. The default localStorage, sessionStorage and
+ * in-memory adapters can be selected by name or a custom adapter can be
+ * assigned that implements the EnlightenmentStorageAdapter interface.
+ *
+ * Each key is prefixed with the defined namespace to prevent collisions with
+ * any other value within the same Storage.
+ */
+export class EnlightenmentStorage {
+  /**
+   * Defines the accepted alias names for the default Storage adapters.
+   */
+  static adapters: EnlightenmentStorageType[] = ['local', 'session', 'memory']
+
+  /**
+   * Returns the Storage adapter from the defined alias name and use the
+   * in-memory adapter as fallback when the Web Storage is not available.
+   *
+   * @param type Use the defined Storage alias name.
+   */
+  static useAdapter(type?: EnlightenmentStorageType): EnlightenmentStorageAdapter {
+    let adapter: EnlightenmentStorageAdapter | undefined = undefined
+
+    try {
+      if (type === 'local') {
+        adapter = globalThis.localStorage
+      } else if (type === 'session') {
+        adapter = globalThis.sessionStorage
+      }
+    } catch (exception) {
+      // Accessing the Web Storage can throw within a restricted context.
+      adapter = undefined
+    }
+
+    return adapter || new EnlightenmentMemoryStorage()
+  }
+
+  /**
+   * The actual Storage adapter that is used to read and write the values.
+   */
+  adapter: EnlightenmentStorageAdapter
+
+  /**
+   * Prefix to use for each Storage key.
+   */
+  namespace: string
+
+  constructor(namespace: string, adapter?: EnlightenmentStorageType | EnlightenmentStorageAdapter) {
+    this.namespace = namespace
+    this.adapter =
+      adapter && typeof adapter !== 'string'
+        ? adapter
+        : EnlightenmentStorage.useAdapter(adapter || 'local')
+  }
+
+  /**
+   * Returns the prefixed Storage key.
+   *
+   * @param key The key to prefix.
+   */
+  protected useKey(key: string) {
+    return this.namespace ? `${this.namespace}:${key}` : key
+  }
+
+  /**
+   * Returns the parsed value from the defined key or undefined when the value
+   * does not exist or is invalid.
+   *
+   * @param key Read from the defined key.
+   */
+  read<T = any>(key: string): T | undefined {
+    if (!key) {
+      return
+    }
+
+    try {
+      const value = this.adapter.getItem(this.useKey(key))
+
+      if (value === null || value === undefined) {
+        return
+      }
+
+      return JSON.parse(value) as T
+    } catch (exception) {
+      return
+    }
+  }
+
+  /**
+   * Removes the stored value from the defined key.
+   *
+   * @param key Remove the defined key.
+   */
+  remove(key: string) {
+    if (!key) {
+      return false
+    }
+
+    try {
+      this.adapter.removeItem(this.useKey(key))
+    } catch (exception) {
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Serializes and writes the defined value to the defined key.
+   *
+   * @param key Write to the defined key.
+   * @param value The value to serialize.
+   */
+  write(key: string, value: any) {
+    if (!key || value === undefined) {
+      return false
+    }
+
+    try {
+      this.adapter.setItem(this.useKey(key), JSON.stringify(value))
+    } catch (exception) {
+      // The Storage quota could be exceeded.
+      return false
+    }
+
+    return true
+  }
+}
@@ -0,0 +1,214 @@
+import {
+  EnlightenmentLogLevel,
+  EnlightenmentStoreAction,
+  EnlightenmentStoreHandler,
+  EnlightenmentStoreReducer,
+  EnlightenmentStoreSelector,
+  EnlightenmentStoreState,
+  EnlightenmentStoreSubscription
+} from '../_types/main'
+
+import { EnlightenmentMixins } from '../core/Mixins'
+import { EnlightenmentLogger } from './Logger'
+
+/**
+ * The EnlightenmentStore provider contains the state that is shared between
+ * multiple Components. The state can only be changed by dispatching an action
+ * that is resolved by the assigned reducer of the action type. The returned
+ * partial state of the reducer is merged with the current state.
+ *
+ * Each subscription selects a slice of the state and the subscription handler
+ * is only called when the selected slice has changed after an action:
+ *
+ * store.assignReducer('increment', (state, amount) => ({ count: state.count + amount }))
+ * store.subscribe((state) => state.count, (count) => ...)
+ * store.dispatch('increment', 1)
+ *
+ * Each dispatched action is written as structured debug record to the
+ * assigned Logger with the previous and updated state.
+ */
+export class EnlightenmentStore {
+  /**
+   * Writes the dispatched actions to the assigned transports.
+   */
+  logger?: EnlightenmentLogger
+
+  /**
+   * Overrides the log threshold of the Logger for the dispatched actions.
+   */
+  logLevel?: EnlightenmentLogLevel
+
+  /**
+   * Defines the namespace of the written action records.
+   */
+  namespace: string
+
+  /**
+   * Contains the assigned reducer for each action type.
+   */
+  reducers: Map<string, EnlightenmentStoreReducer> = new Map()
+
+  /**
+   * The current shared state that should only change from dispatch().
+   */
+  state: EnlightenmentStoreState
+
+  /**
+   * Contains the assigned selectors with the previous selected value.
+   */
+  subscriptions: Set<EnlightenmentStoreSubscription> = new Set()
+
+  constructor(state?: EnlightenmentStoreState, logger?: EnlightenmentLogger, namespace = 'store') {
+    this.state = { ...(state || {}) }
+    this.logger = logger
+    this.namespace = namespace
+  }
+
+  /**
+   * Assigns the reducer that resolves the defined action type.
+   *
+   * @param type Resolve the dispatched actions of the defined type.
+   * @param reducer Returns the partial state from the action payload.
+   */
+  assignReducer(type: string, reducer: EnlightenmentStoreReducer) {
+    if (!type || typeof reducer !== 'function') {
+      return false
+    }
+
+    this.reducers.set(type, reducer)
+
+    return true
+  }
+
+  /**
+   * Resolves the defined action with the assigned reducer and notifies the
+   * subscriptions with a changed slice. Returns TRUE when the state has
+   * changed.
+   *
+   * @param type Dispatch the action of the defined type.
+   * @param payload Use the defined payload within the reducer.
+   * @param source Optional identifier of the dispatching Component.
+   */
+  dispatch(type: string, payload?: any, source?: string) {
+    const reducer = this.reducers.get(type)
+    const action: EnlightenmentStoreAction = { payload, source, type }
+
+    if (!reducer) {
+      this.write('warning', [`Unable to dispatch undefined action: ${type}`, action], source)
+
+      return false
+    }
+
+    const previous = this.state
+    let commit: EnlightenmentStoreState | undefined | void
+
+    try {
+      commit = reducer(previous, payload)
+    } catch (exception) {
+      this.write('error', [`Unable to reduce action: ${type}`, exception], source)
+
+      return false
+    }
+
+    if (commit && typeof commit === 'object') {
+      this.state = { ...previous, ...commit }
+    }
+
+    this.write('debug', [`Action: ${type}`, { action, previous, state: this.state }], source)
+
+    if (this.state === previous) {
+      return false
+    }
+
+    this.notify()
+
+    return true
+  }
+
+  /**
+   * Removes the reducer of the defined action type.
+   *
+   * @param type Omit the reducer of the defined action type.
+   */
+  omitReducer(type: string) {
+    return this.reducers.delete(type)
+  }
+
+  /**
+   * Returns the selected slice of the current state.
+   *
+   * @param selector Returns the slice from the defined selector.
+   */
+  select(selector: EnlightenmentStoreSelector) {
+    if (typeof selector !== 'function') {
+      return
+    }
+
+    try {
+      return selector(this.state)
+    } catch (exception) {
+      this.write('error', ['Unable to select from the current state:', exception])
+    }
+
+    return
+  }
+
+  /**
+   * Calls the defined handler when the selected slice has changed. Returns
+   * the function that removes the subscription.
+   *
+   * @param selector Select the slice to subscribe to.
+   * @param handler Called with the selected slice and previous slice.
+   */
+  subscribe(selector: EnlightenmentStoreSelector, handler: EnlightenmentStoreHandler) {
+    const subscription = { handler, selector, value: this.select(selector) }
+
+    if (typeof selector === 'function' && typeof handler === 'function') {
+      this.subscriptions.add(subscription)
+    }
+
+    return () => this.subscriptions.delete(subscription)
+  }
+
+  /**
+   * Compares the selected slice of each subscription and calls the handler
+   * of the changed subscriptions.
+   */
+  protected notify() {
+    Array.from(this.subscriptions).forEach((subscription) => {
+      const { handler, selector } = subscription
+      const previous = subscription.value
+      const value = this.select(selector)
+
+      if (value === previous || EnlightenmentMixins.compareValue(value, previous)) {
+        return
+      }
+
+      subscription.value = value
+
+      try {
+        handler(value, previous)
+      } catch (exception) {
+        this.write('error', ['Unable to notify the store subscription:', exception])
+      }
+    })
+  }
+
+  /**
+   * Writes the defined message to the assigned Logger.
+   *
+   * @param level Write the record with the defined level.
+   * @param message The actual message values.
+   * @param uuid Optional identifier of the dispatching Component.
+   */
+  protected write(level: EnlightenmentLogLevel, message: any[], uuid?: string) {
+    if (!this.logger) {
+      return
+    }
+
+    this.logger.write(
+      { level, message, namespace: this.namespace, timestamp: Date.now(), uuid: uuid || '' },
+      this.logLevel
+    )
+  }
+}
@@ -0,0 +1,492 @@
+import {
+  EnlightenmentWindow,
+  EnlightenmentWindowHandler,
+  EnlightenmentWindowOwner,
+  EnlightenmentWindowRect,
+  EnlightenmentWindowState
+} from '../_types/main'
+
+import { EnlightenmentLogger } from './Logger'
+import { EnlightenmentTheme, ThemStackingContexts } from './Theme'
+
+/**
+ * The EnlightenmentWindowManager provider keeps track of the absolute and
+ * fixed positioned Draggable targets and defines the stacking order between
+ * them. The active window is raised to the top of the z-index range that is
+ * derived from the Theme stacking context of the window position:
+ * - Absolute windows use the foreground stacking context.
+ * - Fixed windows use the fixed stacking context.
+ *
+ * Each window can be minimized, maximized and restored, while the visible
+ * windows can be aligned with the cascade or tile layouts. The ordered list
+ * of windows is exposed with useWindows() and the subscribed handlers are
+ * called after each change, e.g. to render a taskbar.
+ *
+ * The geometry of the cascade, tile, maximize and restore actions is applied
+ * by the owner of the window when it implements applyWindowRect(), this
+ * ensures the owner can constrain and persist the applied geometry.
+ */
+export class EnlightenmentWindowManager {
+  /**
+   * Defines the stacking context name to use for each window position.
+   */
+  static layers: { [position: string]: string } = {
+    absolute: 'foreground',
+    fixed: 'fixed'
+  }
+
+  /**
+   * Defines the size of the z-index range when the stacking context has no
+   * following stacking context.
+   */
+  static range = 100
+
+  /**
+   * Returns the minimum and maximum z-index value for the defined stacking
+   * context. The range ends before the next stacking context.
+   *
+   * @param context Use the defined stacking contexts.
+   * @param name Returns the range of the defined stacking context name.
+   */
+  static useDepthRange(context: ThemStackingContexts, name: string) {
+    const entry = context && context[name]
+    const min = entry ? parseInt(String(entry.depth)) : NaN
+
+    if (isNaN(min)) {
+      return [0, EnlightenmentWindowManager.range - 1]
+    }
+
+    const depths = Object.values(context)
+      .map(({ depth }) => parseInt(String(depth)))
+      .filter((depth) => !isNaN(depth) && depth > min)
+      .sort((a, b) => a - b)
+
+    return [min, depths.length ? depths[0] - 1 : min + EnlightenmentWindowManager.range - 1]
+  }
+
+  /**
+   * Returns the rectangles of the tile layout for the defined amount of
+   * windows within the defined viewport.
+   *
+   * @param length The amount of windows to tile.
+   * @param viewport Divide the defined viewport.
+   * @param columns Use the defined amount of columns instead.
+   */
+  static useTileLayout(
+    length: number,
+    viewport: EnlightenmentWindowRect,
+    columns?: number
+  ): EnlightenmentWindowRect[] {
+    if (!length || length < 1) {
+      return []
+    }
+
+    const c = Math.max(1, Math.min(columns || Math.ceil(Math.sqrt(length)), length))
+    const r = Math.ceil(length / c)
+    const width = Math.floor(viewport.width / c)
+    const height = Math.floor(viewport.height / r)
+
+    return Array.from({ length }).map((_, index) => ({
+      height,
+      width,
+      x: viewport.x + (index % c) * width,
+      y: viewport.y + Math.floor(index / c) * height
+    }))
+  }
+
+  /**
+   * Contains the subscribed handlers that are called after each change.
+   */
+  handlers: Set<EnlightenmentWindowHandler> = new Set()
+
+  /**
+   * Writes the exceptions of the subscribed handlers.
+   */
+  logger?: EnlightenmentLogger
+
+  /**
+   * Defines the stacking contexts to derive the z-index ranges from.
+   */
+  stackingContext: ThemStackingContexts
+
+  /**
+   * Contains the tracked windows ordered from the bottom to the top.
+   */
+  windows: EnlightenmentWindow[] = []
+
+  constructor(stackingContext?: ThemStackingContexts, logger?: EnlightenmentLogger) {
+    this.stackingContext = stackingContext || EnlightenmentTheme.stackingContext
+    this.logger = logger
+  }
+
+  /**
+   * Tracks the defined context as window and raise it above the existing
+   * windows. The owner is used to keep track of the Components that use the
+   * same context.
+   *
+   * @param context Track the defined context Element.
+   * @param owner The Component that assigns the context.
+   * @param position Use the stacking context for the defined position.
+   */
+  assign(
+    context: HTMLElement,
+    owner: EnlightenmentWindowOwner,
+    position: 'absolute' | 'fixed' = 'absolute'
+  ) {
+    if (!context || !owner) {
+      return
+    }
+
+    const entry = this.useWindow(context)
+
+    if (entry) {
+      !entry.owners.includes(owner) && entry.owners.push(owner)
+
+      if (entry.position !== position) {
+        entry.position = position
+
+        this.update()
+      }
+
+      return entry
+    }
+
+    const commit: EnlightenmentWindow = {
+      context,
+      depth: 0,
+      owners: [owner],
+      position,
+      state: 'normal'
+    }
+
+    this.windows.push(commit)
+
+    this.update()
+
+    return commit
+  }
+
+  /**
+   * Aligns the visible windows from the bottom to the top with the defined
+   * offset between each window.
+   *
+   * @param offset Move each window with the defined offset value.
+   */
+  cascade(offset = 32) {
+    const windows = this.useWindows().filter(({ state }) => state === 'normal')
+
+    windows.forEach(({ context }, index) => {
+      const viewport = this.useViewport(context)
+
+      this.assignRect(context, {
+        height: context.offsetHeight,
+        width: context.offsetWidth,
+        x: viewport.x + index * offset,
+        y: viewport.y + index * offset
+      })
+    })
+
+    windows.length && this.dispatch()
+  }
+
+  /**
+   * Maximizes the defined window within the viewport of the window position.
+   *
+   * @param context Maximize the defined context Element.
+   */
+  maximize(context: HTMLElement) {
+    const entry = this.useWindow(context)
+
+    if (!entry || entry.state === 'maximized') {
+      return false
+    }
+
+    if (entry.state === 'normal') {
+      entry.rect = this.useRect(context)
+    }
+
+    context.hidden = false
+
+    this.assignRect(context, this.useViewport(context))
+    this.assignState(entry, 'maximized')
+    this.raise(context)
+
+    return true
+  }
+
+  /**
+   * Hides the defined window while the initial geometry is kept.
+   *
+   * @param context Minimize the defined context Element.
+   */
+  minimize(context: HTMLElement) {
+    const entry = this.useWindow(context)
+
+    if (!entry || entry.state === 'minimized') {
+      return false
+    }
+
+    if (entry.state === 'normal') {
+      entry.rect = this.useRect(context)
+    }
+
+    context.hidden = true
+
+    this.assignState(entry, 'minimized')
+    this.dispatch()
+
+    return true
+  }
+
+  /**
+   * Removes the defined owner from the tracked window and stops tracking the
+   * window when it has no remaining owners.
+   *
+   * @param context Omit the defined context Element.
+   * @param owner The Component that was assigned to the context.
+   */
+  omit(context: HTMLElement, owner: EnlightenmentWindowOwner) {
+    const entry = this.useWindow(context)
+
+    if (!entry) {
+      return false
+    }
+
+    entry.owners = entry.owners.filter((o) => o !== owner)
+
+    if (entry.owners.length) {
+      return false
+    }
+
+    entry.context.style.zIndex = ''
+    entry.context.removeAttribute('window-state')
+
+    this.windows = this.windows.filter((w) => w !== entry)
+
+    this.update()
+
+    return true
+  }
+
+  /**
+   * Moves the defined window to the top of the stacking order.
+   *
+   * @param context Raise the defined context Element.
+   */
+  raise(context: HTMLElement) {
+    const entry = this.useWindow(context)
+
+    if (!entry) {
+      return false
+    }
+
+    if (this.windows[this.windows.length - 1] !== entry) {
+      this.windows = [...this.windows.filter((w) => w !== entry), entry]
+    }
+
+    this.update()
+
+    return true
+  }
+
+  /**
+   * Restores the initial geometry of the minimized or maximized window.
+   *
+   * @param context Restore the defined context Element.
+   */
+  restore(context: HTMLElement) {
+    const entry = this.useWindow(context)
+
+    if (!entry || entry.state === 'normal') {
+      return false
+    }
+
+    context.hidden = false
+
+    // Restores the geometry before the window was minimized or maximized.
+    if (entry.rect) {
+      this.assignRect(context, entry.rect)
+    }
+
+    entry.rect = undefined
+
+    this.assignState(entry, 'normal')
+    this.raise(context)
+
+    return true
+  }
+
+  /**
+   * Subscribes the defined handler that is called with the ordered windows
+   * after each change and returns the unsubscribe callback.
+   *
+   * @param handler The handler to subscribe.
+   */
+  subscribe(handler: EnlightenmentWindowHandler) {
+    if (typeof handler !== 'function') {
+      return () => {}
+    }
+
+    this.handlers.add(handler)
+
+    return () => {
+      this.handlers.delete(handler)
+    }
+  }
+
+  /**
+   * Divides the viewport between the visible windows.
+   *
+   * @param columns Use the defined amount of columns instead.
+   */
+  tile(columns?: number) {
+    const windows = this.useWindows().filter(({ state }) => state === 'normal')
+
+    if (!windows.length) {
+      return
+    }
+
+    const layout = EnlightenmentWindowManager.useTileLayout(
+      windows.length,
+      this.useViewport(windows[0].context),
+      columns
+    )
+
+    windows.forEach(
+      ({ context }, index) => layout[index] && this.assignRect(context, layout[index])
+    )
+
+    this.dispatch()
+  }
+
+  /**
+   * Returns the ordered windows from the bottom to the top.
+   */
+  useWindows() {
+    return [...this.windows]
+  }
+
+  /**
+   * Returns the tracked window entry from the defined context.
+   *
+   * @param context Find the window of the defined context Element.
+   */
+  useWindow(context?: HTMLElement) {
+    if (!context) {
+      return
+    }
+
+    return this.windows.find((w) => w.context === context)
+  }
+
+  /**
+   * Applies the position and size of the defined rectangle within the owner
+   * of the window, or directly on the context when no owner applies it.
+   *
+   * @param context Apply the rectangle on the defined context Element.
+   * @param rect The rectangle to apply.
+   */
+  protected assignRect(context: HTMLElement, rect: EnlightenmentWindowRect) {
+    const entry = this.useWindow(context)
+    const owner = entry && entry.owners.find((o) => typeof o.applyWindowRect === 'function')
+
+    if (owner && owner.applyWindowRect) {
+      return owner.applyWindowRect(context, rect)
+    }
+
+    context.style.transform = ''
+    context.style.left = `${rect.x}px`
+    context.style.top = `${rect.y}px`
+    context.style.width = `${rect.width}px`
+    context.style.height = `${rect.height}px`
+  }
+
+  /**
+   * Updates the state of the defined window and reflects it as attribute.
+   *
+   * @param entry Update the defined window entry.
+   * @param state The new window state.
+   */
+  protected assignState(entry: EnlightenmentWindow, state: EnlightenmentWindowState) {
+    entry.state = state
+
+    entry.context.setAttribute('window-state', state)
+  }
+
+  /**
+   * Calls the subscribed handlers with the ordered windows.
+   */
+  protected dispatch() {
+    const windows = this.useWindows()
+
+    this.handlers.forEach((handler) => {
+      try {
+        handler(windows)
+      } catch (exception) {
+        this.logger &&
+          this.logger.write({
+            level: 'error',
+            message: ['Unable to call the window handler:', exception],
+            namespace: 'window-manager',
+            timestamp: Date.now(),
+            uuid: ''
+          })
+      }
+    })
+  }
+
+  /**
+   * Applies the z-index for each window within the range of its stacking
+   * context from the current stacking order.
+   */
+  protected update() {
+    const indexes: { [position: string]: number } = {}
+
+    this.windows.forEach((entry) => {
+      const layer = EnlightenmentWindowManager.layers[entry.position]
+      const [min, max] = EnlightenmentWindowManager.useDepthRange(this.stackingContext, layer)
+      const index = indexes[entry.position] || 0
+
+      indexes[entry.position] = index + 1
+
+      entry.depth = Math.min(min + index, max)
+
+      if (entry.context.style.zIndex !== String(entry.depth)) {
+        entry.context.style.zIndex = String(entry.depth)
+      }
+    })
+
+    this.dispatch()
+  }
+
+  /**
+   * Returns the current position and size of the defined context.
+   *
+   * @param context Use the defined context Element.
+   */
+  protected useRect(context: HTMLElement): EnlightenmentWindowRect {
+    return {
+      height: context.offsetHeight,
+      width: context.offsetWidth,
+      x: context.offsetLeft,
+      y: context.offsetTop
+    }
+  }
+
+  /**
+   * Returns the available area for the defined window: the visual viewport
+   * for fixed windows or the offset parent for absolute windows.
+   *
+   * @param context Use the defined context Element.
+   */
+  protected useViewport(context: HTMLElement): EnlightenmentWindowRect {
+    const entry = this.useWindow(context)
+    const parent = context.offsetParent as HTMLElement | null
+
+    if ((entry && entry.position === 'fixed') || !parent) {
+      return { height: globalThis.innerHeight, width: globalThis.innerWidth, x: 0, y: 0 }
+    }
+
+    return { height: parent.clientHeight, width: parent.clientWidth, x: 0, y: 0 }
+  }
+}
@@ -0,0 +1,86 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+
+import {
+  Enlightenment,
+  EnlightenmentContextProviderEvent,
+  EnlightenmentContextRequestEvent,
+  EnlightenmentContextRoot
+} from '../dist/Enlightenment'
+import { useEventTarget } from './helpers'
+
+describe('Context', () => {
+  it('Defines the context-request protocol', () => {
+    const target = new EventTarget() as any
+    const callback = () => {}
+    const event = new EnlightenmentContextRequestEvent('foo', target, callback, true)
+
+    assert.equal(event.type, 'context-request')
+    assert.equal(event.bubbles, true)
+    assert.equal(event.composed, true)
+    assert.equal(event.context, 'foo')
+    assert.equal(event.contextTarget, target)
+    assert.equal(event.callback, callback)
+    assert.equal(event.subscribe, true)
+  })
+
+  it('Replays the pending requests for a new provider', () => {
+    const root = new EventTarget()
+    const element = new EventTarget() as any
+    const contextRoot = new EnlightenmentContextRoot()
+    const values: any[] = []
+
+    contextRoot.attach(root)
+
+    root.dispatchEvent(
+      new EnlightenmentContextRequestEvent('foo', element, (value) => values.push(value), true)
+    )
+    root.dispatchEvent(new EnlightenmentContextRequestEvent('bar', element, () => {}, false))
+
+    assert.equal(contextRoot.pending.get('foo')?.size, 1)
+    assert.equal(contextRoot.pending.has('bar'), false)
+
+    element.addEventListener('context-request', (event: any) => event.callback('baz'))
+    root.dispatchEvent(new EnlightenmentContextProviderEvent('foo', element))
+
+    assert.deepEqual(values, ['baz'])
+    assert.equal(contextRoot.pending.has('foo'), false)
+  })
+
+  it('Omits the pending requests', () => {
+    const root = new EventTarget()
+    const element = new EventTarget() as any
+    const contextRoot = new EnlightenmentContextRoot()
+
+    contextRoot.attach(root)
+    root.dispatchEvent(new EnlightenmentContextRequestEvent('foo', element, () => {}, true))
+    contextRoot.omit(element)
+
+    assert.equal(contextRoot.pending.size, 0)
+    assert.equal(contextRoot.detach(), true)
+  })
+
+  it('Updates the subscribed consumers for each provided value', () => {
+    const provider = useEventTarget(new Enlightenment())
+    const values: any[] = []
+
+    provider.provideContext('foo', 'bar')
+
+    // Requests the context directly from the provider instead of bubbling.
+    const consumer = useEventTarget(new Enlightenment())
+    consumer.dispatchEvent = (event: Event) => provider.dispatchEvent(event)
+    consumer.consumeContext('foo', (value: any) => values.push(value))
+
+    provider.provideContext('foo', 'baz')
+    provider.provideContext('foo', 'qux')
+
+    assert.deepEqual(values, ['bar', 'baz', 'qux'])
+    assert.equal(provider.contextProviders.get('foo').consumers.size, 1)
+
+    consumer.omitContextSubscription('foo')
+    provider.provideContext('foo', 'quux')
+
+    assert.deepEqual(values, ['bar', 'baz', 'qux'])
+    assert.equal(provider.contextProviders.get('foo').consumers.size, 0)
+  })
+})
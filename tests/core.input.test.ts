@@ -0,0 +1,34 @@
+import assert, { equal } from 'assert'
+import { describe, it } from 'mocha'
+
+import { Enlightenment } from '../dist/Enlightenment'
+
+describe('Input', () => {
+  it('useDistance', () => {
+    assert.equal(Enlightenment.useDistance(0, 0, 3, 4), 5)
+    assert.equal(Enlightenment.useDistance(10, 10, 10, 10), 0)
+  })
+
+  it('useAngle', () => {
+    assert.equal(Enlightenment.useAngle(0, 0, 10, 0), 0)
+    assert.equal(Enlightenment.useAngle(0, 0, 0, 10), 90)
+    assert.equal(Enlightenment.useAngle(0, 0, -10, 0), 180)
+  })
+
+  it('useVelocity', () => {
+    assert.deepEqual(Enlightenment.useVelocity([]), [0, 0])
+    assert.deepEqual(
+      Enlightenment.useVelocity([
+        { timestamp: 0, x: 0, y: 0 },
+        { timestamp: 50, x: 25, y: 10 },
+        { timestamp: 100, x: 50, y: -20 }
+      ]),
+      [0.5, -0.2]
+    )
+  })
+
+  it('isPointerEvent', () => {
+    assert.equal(Enlightenment.isPointerEvent(undefined), false)
+    assert.equal(typeof Enlightenment.supportsPointerEvents, 'boolean')
+  })
+})
@@ -0,0 +1,94 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+
+import { Enlightenment } from '../dist/Enlightenment'
+import { useEventTarget } from './helpers'
+
+const useInstance = () => useEventTarget(new Enlightenment())
+
+describe('Lifecycle', () => {
+  it('Waits for the hook that passes the predicate', async () => {
+    const instance = useInstance()
+    const pending = instance.waitFor('preload', (event) => event.detail.extension === 'bar')
+
+    instance.hook('preload', { data: { extension: 'foo' } })
+    instance.hook('preload', { data: { extension: 'bar' } })
+
+    assert.equal((await pending).detail.extension, 'bar')
+  })
+
+  it('Waits for the hook within the defined context', async () => {
+    const instance = useInstance()
+    const context: any = new EventTarget()
+    const pending = instance.waitFor('ready', undefined, undefined, context)
+
+    instance.hook('ready', { context })
+
+    assert.equal((await pending).type, 'ready')
+  })
+
+  it('Rejects the undefined or expired hook', async () => {
+    const instance = useInstance()
+
+    await assert.rejects(instance.waitFor(''))
+    await assert.rejects(instance.waitFor('ready', undefined, 10), /timeout reached/)
+  })
+
+  it('Resolves when the Component is ready', async () => {
+    const instance = useInstance()
+    const pending = instance.whenReady()
+
+    instance.domReady = true
+    instance.hook('ready')
+
+    assert.equal(await pending, instance)
+    assert.equal(await instance.whenReady(), instance)
+  })
+
+  it('Resolves when the extensions are preloaded', async () => {
+    const instance = useInstance()
+
+    assert.equal(await instance.whenPreloaded(), instance)
+
+    instance.extensions = ['Foo', 'Bar']
+
+    const pending = instance.whenPreloaded()
+
+    instance.preloadedExtensions.push('Foo')
+    instance.hook('preload', { data: { extension: 'Foo' } })
+    instance.preloadedExtensions.push('Bar')
+    instance.hook('preload', { data: { extension: 'Bar' } })
+
+    assert.equal(await pending, instance)
+    assert.equal(await instance.whenPreloaded('Foo'), instance)
+  })
+
+  it('Rejects the undefined or failed extensions', async () => {
+    const instance = useInstance()
+
+    await assert.rejects(instance.whenPreloaded('Foo'), /unable to preload: Foo/)
+
+    instance.extensions = ['Foo']
+
+    const pending = instance.whenPreloaded()
+
+    instance.failedExtensions.push('Foo')
+    instance.hook('preload', { data: { extension: 'Foo', failed: true } })
+
+    await assert.rejects(pending, /unable to preload: Foo/)
+  })
+
+  it('Rejects the pending preload for an undefined importer', async () => {
+    const instance = useInstance()
+
+    instance.requestUpdate = () => {}
+    instance.extensions = ['Foo']
+
+    const pending = instance.whenPreloaded()
+
+    instance.preload()
+
+    await assert.rejects(pending, /unable to preload: Foo/)
+    assert.deepEqual(instance.failedExtensions, ['Foo'])
+  })
+})
@@ -0,0 +1,66 @@
+import assert, { equal } from 'assert'
+import { describe, it } from 'mocha'
+
+import { Enlightenment, EnlightenmentLogBuffer, EnlightenmentLogger } from '../dist/Enlightenment'
+
+const useRecord = (level: any, message = 'test') => ({
+  level,
+  message: [message],
+  namespace: 'test',
+  timestamp: Date.now(),
+  uuid: 'test'
+})
+
+describe('Logger', () => {
+  it('Defines the static logger', () =>
+    assert.equal(Enlightenment.logger instanceof EnlightenmentLogger, true))
+
+  it('useLevel', () => {
+    assert.equal(EnlightenmentLogger.useLevel('warn'), 'warning')
+    assert.equal(EnlightenmentLogger.useLevel('ERROR'), 'error')
+    assert.equal(EnlightenmentLogger.useLevel('undefined'), 'log')
+    assert.equal(EnlightenmentLogger.useLevel(undefined, 'info'), 'info')
+  })
+
+  it('Writes the records within the threshold', () => {
+    const logger = new EnlightenmentLogger('warning')
+    const records: any[] = []
+
+    logger.omitTransport(EnlightenmentLogger.console)
+    logger.assignTransport((record) => records.push(record))
+
+    assert.equal(logger.write(useRecord('log')), false)
+    assert.equal(logger.write(useRecord('error')), true)
+    assert.equal(logger.write(useRecord('log'), 'debug'), true)
+    assert.equal(records.length, 2)
+  })
+
+  it('Keeps the latest records within the buffer limit', () => {
+    const buffer = new EnlightenmentLogBuffer(2)
+
+    buffer.write(useRecord('log', 'a'))
+    buffer.write(useRecord('log', 'b'))
+    buffer.write(useRecord('log', 'c'))
+
+    assert.deepEqual(
+      buffer.records.map(({ message }) => message[0]),
+      ['b', 'c']
+    )
+  })
+
+  it('Captures the records instead of the transports', () => {
+    const logger = new EnlightenmentLogger()
+    let calls = 0
+
+    logger.assignTransport(() => (calls += 1))
+
+    const buffer = logger.capture()
+
+    logger.write(useRecord('debug'))
+    logger.write(useRecord('error'))
+
+    assert.equal(logger.release(), buffer)
+    assert.equal(buffer.records.length, 2)
+    assert.equal(calls, 0)
+  })
+})
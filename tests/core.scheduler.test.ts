@@ -0,0 +1,66 @@
+import assert, { equal } from 'assert'
+import { describe, it } from 'mocha'
+
+import { EnlightenmentScheduler } from '../dist/Enlightenment'
+
+describe('Scheduler', () => {
+  it('Debounces the handler with the same arguments', async () => {
+    const scheduler = new EnlightenmentScheduler(undefined, 5)
+    const calls: any[] = []
+    const handler = (value: number) => calls.push(value) && value
+
+    const a = scheduler.schedule(handler, { args: [1] })
+    const b = scheduler.schedule(handler, { args: [1] })
+    const c = scheduler.schedule(handler, { args: [2] })
+
+    assert.equal(scheduler.size, 2)
+    assert.equal(scheduler.has(handler, [1]), true)
+    assert.equal(await a.promise, 1)
+    assert.equal(await b.promise, 1)
+    assert.equal(await c.promise, 2)
+    assert.deepEqual(calls, [1, 2])
+    assert.equal(scheduler.size, 0)
+  })
+
+  it('Throttles with the leading and trailing calls', async () => {
+    const scheduler = new EnlightenmentScheduler(undefined, 5)
+    let calls = 0
+    const handler = () => (calls += 1)
+
+    const leading = scheduler.schedule(handler, { mode: 'throttle' })
+    const trailing = scheduler.schedule(handler, { mode: 'throttle' })
+    scheduler.schedule(handler, { mode: 'throttle' })
+
+    assert.equal(calls, 1)
+    assert.equal(await leading.promise, 1)
+    assert.equal(await trailing.promise, 2)
+  })
+
+  it('Calls the handler within the microtask', async () => {
+    const scheduler = new EnlightenmentScheduler()
+    let calls = 0
+
+    const task = scheduler.schedule(() => (calls += 1), { mode: 'microtask' })
+
+    assert.equal(calls, 0)
+    assert.equal(await task.promise, 1)
+  })
+
+  it('Cancels the pending handler', async () => {
+    const scheduler = new EnlightenmentScheduler(undefined, 5)
+    let calls = 0
+    const handler = () => (calls += 1)
+
+    const task = scheduler.schedule(handler)
+
+    assert.equal(task.cancel(), true)
+    assert.equal(await task.promise, undefined)
+    assert.equal(task.cancel(), false)
+
+    scheduler.schedule(handler, { args: [1] })
+    scheduler.schedule(handler, { args: [2] })
+
+    assert.equal(scheduler.clear(), 2)
+    assert.equal(calls, 0)
+  })
+})
@@ -0,0 +1,74 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+
+import { Enlightenment, EnlightenmentScopes, EnlightenmentStore } from '../dist/Enlightenment'
+
+const useElement = (tagName: string, attributes: { [name: string]: string } = {}) =>
+  ({
+    tagName: tagName.toUpperCase(),
+    getAttribute: (name: string) => (name in attributes ? attributes[name] : null),
+    hasAttribute: (name: string) => name in attributes,
+    parentNode: undefined
+  }) as any
+
+describe('Scopes', () => {
+  it('Defines the static scopes', () => {
+    assert.equal(Enlightenment.scopes instanceof EnlightenmentScopes, true)
+    assert.equal(Enlightenment.scopes.fallback, Enlightenment.globals)
+  })
+
+  it('isScope', () => {
+    assert.equal(EnlightenmentScopes.isScope(useElement('enlightenment-scope')), true)
+    assert.equal(
+      EnlightenmentScopes.isScope(useElement('div', { 'enlightenment-scope': '' })),
+      true
+    )
+    assert.equal(EnlightenmentScopes.isScope(useElement('div')), false)
+    assert.equal(EnlightenmentScopes.isScope(undefined), false)
+  })
+
+  it('Resolves the nearest scope', () => {
+    const scopes = new EnlightenmentScopes(Enlightenment.globals)
+    const root = useElement('div', { 'enlightenment-scope': 'app' })
+    const scope = useElement('enlightenment-scope')
+    const host = useElement('div')
+    const shadowRoot = { host, parentNode: undefined } as any
+    const element = useElement('div')
+
+    scope.parentNode = root
+    host.parentNode = scope
+    element.parentNode = shadowRoot
+
+    const globals = scopes.use(element)
+
+    assert.notEqual(globals, Enlightenment.globals)
+    assert.equal(globals, scopes.use(scope))
+    assert.notEqual(globals, scopes.use(root))
+    assert.equal(scopes.use(root).namespace, 'app')
+    assert.equal(globals.namespace, Enlightenment.globals.namespace)
+    assert.equal(scopes.use(useElement('div')), Enlightenment.globals)
+  })
+
+  it('Omits the assigned scope', () => {
+    const scopes = new EnlightenmentScopes(Enlightenment.globals)
+    const element = useElement('div')
+    const globals = scopes.assign(element)
+
+    assert.equal(scopes.use(element), globals)
+    assert.equal(scopes.omit(element), true)
+    assert.equal(scopes.use(element), Enlightenment.globals)
+  })
+
+  it('Uses a separate store for each scope', () => {
+    const scopes = new EnlightenmentScopes(Enlightenment.globals)
+    const instance: any = new Enlightenment()
+    const scoped: any = new Enlightenment()
+
+    scoped.globals = scopes.assign(useElement('enlightenment-scope'))
+
+    assert.equal(instance.useStore(), Enlightenment.store)
+    assert.equal(scoped.useStore() instanceof EnlightenmentStore, true)
+    assert.notEqual(scoped.useStore(), Enlightenment.store)
+    assert.equal(scoped.useStore(), scoped.globals.store)
+  })
+})
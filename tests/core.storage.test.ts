@@ -0,0 +1,48 @@
+import assert, { equal } from 'assert'
+import { describe, it } from 'mocha'
+
+import { EnlightenmentMemoryStorage, EnlightenmentStorage } from '../dist/Enlightenment'
+
+describe('Storage', () => {
+  it('Uses the memory adapter as fallback', () => {
+    const storage = new EnlightenmentStorage('test', 'memory')
+
+    assert.equal(storage.adapter instanceof EnlightenmentMemoryStorage, true)
+  })
+
+  it('Writes and reads serialized values', () => {
+    const storage = new EnlightenmentStorage('test', 'memory')
+    const entry = { x: 10, y: 20, width: 300, height: 200, stretchX: false }
+
+    assert.equal(storage.write('panel', entry), true)
+    assert.deepEqual(storage.read('panel'), entry)
+    assert.equal(storage.read('undefined'), undefined)
+  })
+
+  it('Prefixes the keys with the namespace', () => {
+    const adapter = new EnlightenmentMemoryStorage()
+    const storage = new EnlightenmentStorage('test', adapter)
+
+    storage.write('panel', { x: 1 })
+
+    assert.equal(adapter.getItem('test:panel'), '{"x":1}')
+  })
+
+  it('Removes stored values', () => {
+    const storage = new EnlightenmentStorage('test', 'memory')
+
+    storage.write('panel', { x: 1 })
+    storage.remove('panel')
+
+    assert.equal(storage.read('panel'), undefined)
+  })
+
+  it('Ignores invalid stored values', () => {
+    const adapter = new EnlightenmentMemoryStorage()
+    const storage = new EnlightenmentStorage('test', adapter)
+
+    adapter.setItem('test:panel', '{invalid')
+
+    assert.equal(storage.read('panel'), undefined)
+  })
+})
@@ -0,0 +1,73 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+
+import { Enlightenment, EnlightenmentLogger, EnlightenmentStore } from '../dist/Enlightenment'
+
+const useStore = () => {
+  const logger = new EnlightenmentLogger('debug')
+  const buffer = logger.capture()
+  const store = new EnlightenmentStore({ count: 0, label: 'foo' }, logger)
+
+  store.assignReducer('increment', (state, amount = 1) => ({ count: state.count + amount }))
+  store.assignReducer('label', (state, label) => ({ label }))
+
+  return { buffer, store }
+}
+
+describe('Store', () => {
+  it('Defines the static store', () =>
+    assert.equal(Enlightenment.store instanceof EnlightenmentStore, true))
+
+  it('Reduces the dispatched actions', () => {
+    const { store } = useStore()
+
+    assert.equal(store.dispatch('increment', 2), true)
+    assert.equal(store.dispatch('undefined'), false)
+    assert.deepEqual(store.state, { count: 2, label: 'foo' })
+    assert.equal(
+      store.select((state) => state.count),
+      2
+    )
+  })
+
+  it('Only notifies the changed slices', () => {
+    const { store } = useStore()
+    const counts: any[] = []
+    const labels: any[] = []
+
+    store.subscribe(
+      (state) => state.count,
+      (value, previous) => counts.push([value, previous])
+    )
+    const unsubscribe = store.subscribe(
+      (state) => state.label,
+      (value) => labels.push(value)
+    )
+
+    store.dispatch('increment')
+    store.dispatch('label', 'foo')
+    store.dispatch('label', 'bar')
+    unsubscribe()
+    store.dispatch('label', 'baz')
+
+    assert.deepEqual(counts, [[1, 0]])
+    assert.deepEqual(labels, ['bar'])
+  })
+
+  it('Logs the dispatched actions', () => {
+    const { buffer, store } = useStore()
+
+    store.dispatch('increment', 1, 'test')
+    store.dispatch('undefined')
+
+    assert.equal(buffer.records.length, 2)
+    assert.equal(buffer.records[0].level, 'debug')
+    assert.equal(buffer.records[0].uuid, 'test')
+    assert.deepEqual(buffer.records[0].message[1].action, {
+      payload: 1,
+      source: 'test',
+      type: 'increment'
+    })
+    assert.equal(buffer.records[1].level, 'warning')
+  })
+})
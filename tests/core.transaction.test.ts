@@ -0,0 +1,98 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+
+import { Enlightenment } from '../dist/Enlightenment'
+import { useEventTarget } from './helpers'
+
+class Transactional extends Enlightenment {
+  static schema = { delay: { min: 0, type: 'number' }, label: { enum: ['foo', 'bar', 'baz'] } }
+
+  label = 'foo'
+}
+
+const useInstance = () => {
+  const instance = useEventTarget(new Transactional())
+  const commits: any[] = []
+  const updates: any[] = []
+
+  instance.requestUpdate = (...args: any[]) => updates.push(args)
+  instance.addEventListener('commit', (event: CustomEvent) => commits.push(event.detail))
+
+  return { commits, instance, updates }
+}
+
+describe('Transaction', () => {
+  it('Dispatches the commit hook once with the changed properties', () => {
+    const { commits, instance, updates } = useInstance()
+
+    const result = instance.transaction(() => {
+      instance.commit('label', 'bar')
+      instance.commit('delay', 100)
+      instance.commit('label', 'baz')
+    })
+
+    assert.equal(result, true)
+    assert.equal(instance.label, 'baz')
+    assert.equal(instance.delay, 100)
+    assert.deepEqual(commits, [{ delay: 100, label: 'baz' }])
+    assert.equal(updates.length, 1)
+  })
+
+  it('Reverts the transaction with a rejected commit', () => {
+    const { commits, instance, updates } = useInstance()
+    const { delay } = instance
+
+    const result = instance.transaction(() => {
+      instance.commit('delay', 100)
+      instance.commit('label', 'invalid')
+    })
+
+    assert.equal(result, false)
+    assert.equal(instance.delay, delay)
+    assert.equal(instance.label, 'foo')
+    assert.deepEqual(commits, [])
+    assert.equal(updates.length, 0)
+  })
+
+  it('Reverts the transaction when the handler throws', () => {
+    const { commits, instance } = useInstance()
+
+    const result = instance.transaction(() => {
+      instance.commit('label', 'bar')
+
+      throw new Error('foo')
+    })
+
+    assert.equal(result, false)
+    assert.equal(instance.label, 'foo')
+    assert.deepEqual(commits, [])
+  })
+
+  it('Includes the nested transactions within the initial transaction', () => {
+    const { commits, instance } = useInstance()
+
+    const result = instance.transaction(() => {
+      instance.commit('label', 'bar')
+
+      assert.equal(
+        instance.transaction(() => instance.commit('delay', 100)),
+        true
+      )
+
+      assert.deepEqual(commits, [])
+    })
+
+    assert.equal(result, true)
+    assert.deepEqual(commits, [{ delay: 100, label: 'bar' }])
+
+    const rejected = instance.transaction(() => {
+      instance.commit('label', 'baz')
+      instance.transaction(() => instance.commit('delay', -1))
+    })
+
+    assert.equal(rejected, false)
+    assert.equal(instance.label, 'bar')
+    assert.equal(instance.delay, 100)
+    assert.equal(commits.length, 1)
+  })
+})
@@ -2,6 +2,7 @@ import assert, { equal } from 'assert'
 import { describe, it } from 'mocha'
 
 import { Enlightenment } from '../dist/Enlightenment'
+import { useEventTarget } from './helpers'
 const instance = new Enlightenment()
 
 describe('Properties', () => {
@@ -100,6 +101,32 @@ describe('Parsers', () => {
     assert.equal(Enlightenment.isInteger(''), undefined)
   })
 
+  it('parseHandle', () => {
+    const { bindings, errors } = Enlightenment.parseHandle(
+      "focus:start, click.prevent.stop:select('a, b', 2, $event); keydown.enter.esc:close()"
+    )
+
+    assert.equal(errors.length, 0)
+    assert.deepEqual(bindings[0], {
+      args: [],
+      keys: [],
+      method: 'start',
+      modifiers: [],
+      type: 'focus'
+    })
+    assert.deepEqual(bindings[1].args, ['a, b', 2, Enlightenment.HANDLE_EVENT])
+    assert.deepEqual(bindings[1].modifiers, ['prevent', 'stop'])
+    assert.deepEqual(bindings[2].keys, ['enter', 'escape'])
+    assert.equal(Enlightenment.parseHandle('select').bindings[0].type, 'click')
+  })
+
+  it('parseHandle errors', () => {
+    const { bindings, errors } = Enlightenment.parseHandle('click.enter:a(), b(foo), c(')
+
+    assert.equal(bindings.length, 0)
+    assert.equal(errors.length, 3)
+  })
+
   const timestamp = instance.useTimestamp()
   const date = instance.useTimestamp(true)
 
@@ -172,4 +199,40 @@ describe('Validators', () => {
     assert.equal(Enlightenment.isTarget(_top), _top)
     assert.equal(Enlightenment.isTarget(fallback), _self)
   })
+
+  it('validateValue', () => {
+    assert.equal(Enlightenment.validateValue(undefined, { type: 'number' }), undefined)
+    assert.equal(typeof Enlightenment.validateValue(undefined, { required: true }), 'string')
+    assert.equal(Enlightenment.validateValue(0.5, { type: 'number', min: 0, max: 1 }), undefined)
+    assert.equal(typeof Enlightenment.validateValue(NaN, { type: 'number' }), 'string')
+    assert.equal(typeof Enlightenment.validateValue(2, { type: 'number', max: 1 }), 'string')
+    assert.equal(typeof Enlightenment.validateValue('foo', { enum: ['bar'] }), 'string')
+    assert.equal(Enlightenment.validateValue('bar', { enum: ['bar'] }), undefined)
+    assert.equal(Enlightenment.validateValue('foo', { validate: () => 'Invalid' }), 'Invalid')
+    assert.equal(typeof Enlightenment.validateValue('foo', { validate: () => false }), 'string')
+  })
+})
+
+describe('Schema', () => {
+  class Validated extends Enlightenment {
+    static schema = { label: { enum: ['foo', 'bar'] } }
+
+    label = 'foo'
+  }
+
+  it('Resets the error of the rejected property', () => {
+    const validated = useEventTarget(new Validated())
+
+    validated.requestUpdate = () => {}
+
+    validated.commit('label', 'baz')
+
+    assert.equal(validated.label, 'foo')
+    assert.equal(validated.error.startsWith('Invalid label value'), true)
+
+    validated.commit('label', 'bar')
+
+    assert.equal(validated.label, 'bar')
+    assert.equal(validated.error, '')
+  })
 })
@@ -0,0 +1,85 @@
+import assert, { equal } from 'assert'
+import { describe, it } from 'mocha'
+
+import {
+  EnlightenmentLogger,
+  EnlightenmentTheme,
+  EnlightenmentWindowManager
+} from '../dist/Enlightenment'
+
+const useContext = () =>
+  ({
+    offsetHeight: 100,
+    offsetLeft: 0,
+    offsetParent: { clientHeight: 600, clientWidth: 800 },
+    offsetTop: 0,
+    offsetWidth: 100,
+    style: {}
+  }) as any
+
+describe('Window manager', () => {
+  it('useDepthRange', () => {
+    const { stackingContext } = EnlightenmentTheme
+
+    assert.deepEqual(
+      EnlightenmentWindowManager.useDepthRange(stackingContext, 'foreground'),
+      [100, 299]
+    )
+    assert.deepEqual(EnlightenmentWindowManager.useDepthRange(stackingContext, 'fixed'), [700, 799])
+    assert.deepEqual(EnlightenmentWindowManager.useDepthRange(stackingContext, 'surface'), [0, 99])
+  })
+
+  it('useTileLayout', () => {
+    const viewport = { x: 0, y: 0, width: 800, height: 600 }
+
+    assert.deepEqual(EnlightenmentWindowManager.useTileLayout(0, viewport), [])
+    assert.deepEqual(EnlightenmentWindowManager.useTileLayout(3, viewport), [
+      { height: 300, width: 400, x: 0, y: 0 },
+      { height: 300, width: 400, x: 400, y: 0 },
+      { height: 300, width: 400, x: 0, y: 300 }
+    ])
+    assert.deepEqual(EnlightenmentWindowManager.useTileLayout(2, viewport, 1), [
+      { height: 300, width: 800, x: 0, y: 0 },
+      { height: 300, width: 800, x: 0, y: 300 }
+    ])
+  })
+
+  it('subscribe', () => {
+    const manager = new EnlightenmentWindowManager()
+    let calls = 0
+    const unsubscribe = manager.subscribe(() => (calls += 1))
+
+    assert.equal(manager.handlers.size, 1)
+    unsubscribe()
+    assert.equal(manager.handlers.size, 0)
+    assert.equal(calls, 0)
+  })
+
+  it('Applies the geometry within the window owner', () => {
+    const manager = new EnlightenmentWindowManager()
+    const rects: any[] = []
+    const owner = { applyWindowRect: (context: any, rect: any) => rects.push(rect) } as any
+    const context = useContext()
+
+    manager.assign(context, owner)
+    manager.assign(useContext(), {} as any)
+    manager.tile(2)
+
+    assert.deepEqual(rects, [{ height: 600, width: 400, x: 0, y: 0 }])
+    assert.equal(context.style.left, undefined)
+  })
+
+  it('Writes the handler exceptions to the logger', () => {
+    const logger = new EnlightenmentLogger()
+    const buffer = logger.capture()
+    const manager = new EnlightenmentWindowManager(undefined, logger)
+
+    manager.subscribe(() => {
+      throw new Error('test')
+    })
+    manager.assign(useContext(), {} as any)
+
+    assert.equal(buffer.records.length, 1)
+    assert.equal(buffer.records[0].level, 'error')
+  })
+})
@@ -0,0 +1,135 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+
+import {
+  Enlightenment,
+  EnlightenmentMemoryStorage,
+  EnlightenmentScopes
+} from '../dist/Enlightenment'
+import { EnlightenmentDraggable } from '../dist/Draggable.extension'
+
+const useHistory = () => ({ entries: [] as any[], index: -1 })
+
+// Uses a fixed bounding rectangle and captures the applied geometry of the
+// persisted context.
+const usePersisted = () => {
+  const draggable: any = new EnlightenmentDraggable()
+  const resizes: any[] = []
+  const context = {
+    offsetHeight: 200,
+    offsetLeft: 20,
+    offsetTop: 40,
+    offsetWidth: 300,
+    style: { transform: 'translate(10px, 5px)' }
+  }
+
+  draggable.assignStorage(new EnlightenmentMemoryStorage())
+  draggable.persist = 'panel'
+  draggable.position = 'absolute'
+  draggable.defineTarget = () => (draggable.interactionTarget = context)
+  draggable.resize = (_: any, options: any) => resizes.push(options)
+  draggable.transform = () => {}
+  draggable.updateStretched = () => {}
+  draggable.useBoundingRect = () => ({ height: 600, left: 0, top: 0, width: 800 })
+
+  return { context, draggable, resizes }
+}
+
+describe('Draggable', () => {
+  it('recordHistory', () => {
+    const history = useHistory()
+
+    assert.equal(EnlightenmentDraggable.recordHistory(history, { x: 0 }, 3), true)
+    assert.equal(EnlightenmentDraggable.recordHistory(history, { x: 0 }, 3), false)
+    assert.equal(EnlightenmentDraggable.recordHistory(history, { x: 1 }, 3), true)
+    assert.equal(history.index, 1)
+  })
+
+  it('Removes the entries that exceed the history limit', () => {
+    const history = useHistory()
+
+    ;[0, 1, 2, 3, 4].forEach((x) => EnlightenmentDraggable.recordHistory(history, { x }, 3))
+
+    assert.deepEqual(history.entries, [{ x: 2 }, { x: 3 }, { x: 4 }])
+    assert.equal(history.index, 2)
+  })
+
+  it('Moves within the history for undo and redo', () => {
+    const history = useHistory()
+
+    ;[0, 1, 2].forEach((x) => EnlightenmentDraggable.recordHistory(history, { x }, 10))
+
+    assert.equal(EnlightenmentDraggable.moveHistory(history, -1), 1)
+    assert.equal(EnlightenmentDraggable.moveHistory(history, -1), 0)
+    assert.equal(EnlightenmentDraggable.moveHistory(history, -1), undefined)
+    assert.equal(EnlightenmentDraggable.moveHistory(history, 1), 1)
+
+    // The undone entries are removed by the next record.
+    EnlightenmentDraggable.recordHistory(history, { x: 5 }, 10)
+
+    assert.deepEqual(history.entries, [{ x: 0 }, { x: 1 }, { x: 5 }])
+    assert.equal(EnlightenmentDraggable.moveHistory(history, 1), undefined)
+  })
+
+  it('Uses a separate window manager for each scope', () => {
+    const scopes = new EnlightenmentScopes(Enlightenment.globals)
+    const instance: any = new EnlightenmentDraggable()
+    const scoped: any = new EnlightenmentDraggable()
+
+    scoped.globals = scopes.assign({ getAttribute: () => null } as any)
+
+    assert.equal(instance.useWindowManager(), EnlightenmentDraggable.windowManager)
+    assert.notEqual(scoped.useWindowManager(), EnlightenmentDraggable.windowManager)
+    assert.equal(scoped.useWindowManager(), scoped.globals.windowManager)
+  })
+
+  it('Persists the geometry with the stretched state', () => {
+    const { context, draggable } = usePersisted()
+
+    draggable.persistGeometry(context)
+
+    assert.deepEqual(draggable.useStorage().read('panel'), {
+      height: 200,
+      position: 'absolute',
+      stretchX: false,
+      stretchY: false,
+      width: 300,
+      x: 30,
+      y: 45
+    })
+  })
+
+  it('Restores the persisted geometry within the bounding rectangle', () => {
+    const { draggable, resizes } = usePersisted()
+
+    draggable.useStorage().write('panel', {
+      height: 200,
+      position: 'absolute',
+      stretchX: false,
+      stretchY: true,
+      width: 1200,
+      x: 1000,
+      y: -50
+    })
+
+    draggable.restoreGeometry()
+
+    assert.deepEqual(resizes, [{ height: 600, width: 800, x: 0, y: 0 }])
+
+    draggable
+      .useStorage()
+      .write('panel', { height: 200, position: 'absolute', width: 300, x: 1000 })
+    draggable.restoreGeometry()
+
+    assert.deepEqual(resizes[1], { height: 200, width: 300, x: 500, y: 0 })
+  })
+
+  it('Ignores the persisted geometry of another position type', () => {
+    const { draggable, resizes } = usePersisted()
+
+    draggable.useStorage().write('panel', { height: 200, position: 'fixed', width: 300 })
+    draggable.restoreGeometry()
+
+    assert.deepEqual(resizes, [])
+  })
+})
@@ -0,0 +1,14 @@
+/**
+ * Delegates the Events of the defined instance to a detached EventTarget since
+ * the constructed Components cannot dispatch Events outside the browser.
+ *
+ * @param instance Assign the Event methods to the defined instance.
+ * @param target Delegate the Events to the defined target instead.
+ */
+export const useEventTarget = (instance: any, target = new EventTarget()) => {
+  instance.addEventListener = target.addEventListener.bind(target)
+  instance.removeEventListener = target.removeEventListener.bind(target)
+  instance.dispatchEvent = target.dispatchEvent.bind(target)
+
+  return instance
+}